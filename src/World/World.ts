@@ -1,7 +1,17 @@
 import gsap from 'gsap';
 import type GUI from 'lil-gui';
-import type { Mesh, PerspectiveCamera, Scene, WebGLRenderer } from 'three';
+import {
+    type AmbientLight,
+    type DirectionalLight,
+    type Mesh,
+    type Object3D,
+    type PerspectiveCamera,
+    type Scene,
+    Vector3,
+    type WebGLRenderer,
+} from 'three';
 import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import type { Capsule } from 'three/examples/jsm/math/Capsule.js';
 import { createBase } from './components/base';
 import { createBirdCamera } from './components/birdCamera';
 import { loadBirds } from './components/birds/birds';
@@ -11,14 +21,36 @@ import { loadHouse } from './components/house/house';
 import { createLights } from './components/lights';
 import { createScene } from './components/scene';
 import { createSunSphere } from './components/sunSphere';
+import { FrameBenchmark } from './systems/benchmark';
+import { inferTimeZone } from './systems/cities';
 import { createControls } from './systems/controls';
 import { DynamicSky, type SkyControl } from './systems/DynamicSky';
+import { FastingChart } from './systems/FastingChart';
 import { createGUI } from './systems/gui';
+import { Hud } from './systems/Hud';
+import { InsolationAnalysis } from './systems/insolation';
 import { Loop } from './systems/Loop';
+import { defaultLocation } from './systems/locations';
 import { createPlayer } from './systems/player';
+import { PointProbes } from './systems/probes';
 import { Resizer } from './systems/Resizer';
 import { createRenderer } from './systems/renderer';
+import { SceneStore } from './systems/SceneStore';
 import { SunPath, type SunPathParams } from './systems/SunPath';
+import { createSceneLinkUpdater, decodeSceneLink } from './systems/sceneLink';
+import {
+    applySceneParams,
+    type CameraState,
+    mergeSceneStates,
+    pickSceneParams,
+    type SceneState,
+    type VisibilityName,
+    visibilityNames,
+} from './systems/sceneState';
+import { createSettingsAutosave, loadSettings } from './systems/settingsStore';
+import { Timeline } from './systems/Timeline';
+import { TimeLapseExport } from './systems/timeLapse';
+import { getZonedParts } from './systems/timezone';
 
 class World {
     private birdCamera: PerspectiveCamera;
@@ -32,6 +64,16 @@ class World {
 
     private gui: GUI;
     private tl: gsap.core.Timeline;
+    private sunPath: SunPath;
+    private skyControl: SkyControl;
+    private ambientLight: AmbientLight;
+    private sunLight: DirectionalLight;
+    private visibilityTargets: Record<VisibilityName, Object3D | undefined>;
+    private cameraControl: { birdView: () => void; firstPerson: () => void };
+    private player?: Capsule;
+    private insolation: InsolationAnalysis;
+    private probes: PointProbes;
+    private pendingFirstPersonCamera?: CameraState;
 
     constructor(container: Element) {
         this.birdCamera = createBirdCamera();
@@ -45,38 +87,85 @@ class World {
         this.controls = createControls(this.activeCamera, this.renderer.domElement);
         this.controls.tick = (_delta: number) => this.controls.update();
 
+        const { latitude, longitude, timeZone } = defaultLocation;
+        const now = getZonedParts(Date.now(), timeZone);
         const params: SunPathParams = {
+            analemmaFirstHour: 7,
+            analemmaHourStep: 1,
+            analemmaLastHour: 17,
+            analemmaTimeBasis: 'clock',
             animateTime: true,
+            autoTimeZone: true,
             baseY: 0,
-            day: new Date().getDate(),
+            calculationMethod: 'Other',
+            day: now.day,
             fajrAngle: 18,
+            gnomonHeight: 2,
+            highLatitudeRule: 'middleofthenight',
             // removed unused variable(),
             // removed unused variable(),
-            hour: new Date().getHours(),
+            hijriAdjustment: 0,
+            hijriCalendar: 'ummAlQura',
+            hour: now.hour,
             ishaAngle: 18,
-            latitude: -23.029396,
-            longitude: -46.974293,
-            minute: new Date().getMinutes(),
+            ishaInterval: 0,
+            latitude,
+            longitude,
+            madhab: 'shafi',
+            minute: now.minute,
             // removed unused variable(),
-            month: new Date().getMonth() + 1,
+            month: now.month,
             northOffset: 303,
+            prayerAdjustments: { asr: 0, dhuhr: 0, fajr: 0, isha: 0, maghrib: 0, sunrise: 0 },
             radius: 18,
+            rounding: 'nearest',
             shadowBias: -0.00086,
+            showAnalemmaLabels: true,
             showAnalemmas: true,
+            showFastingChart: false,
+            showGnomon: false,
+            showHorizonRing: true,
+            showMonthlyPaths: false,
+            showMoon: true,
+            showMoonDayPath: false,
+            showPrayerMarkers: true,
+            showSeasonalPaths: false,
             showSunDayPath: true,
             showSunSurface: true,
+            showTwilightCones: false,
+            sunSurfaceDayStep: 7,
+            sunSurfaceMinuteStep: 30,
             timeSpeed: 100,
+            timeZone,
         };
 
+        // A shared link overrides the saved settings, which override the defaults;
+        // malformed or out of range entries keep the value underneath
+        const { rejected, state: linkState } = decodeSceneLink(window.location.hash);
+        if (rejected.length > 0) {
+            console.warn(`Ignoring invalid link values: ${rejected.join(', ')}`);
+        }
+        const { current } = loadSettings();
+        const initialState = current ? mergeSceneStates(current, linkState) : linkState;
+        applySceneParams(params, initialState);
+        // A link or saved scene may move the location without naming its time zone
+        if (params.autoTimeZone && initialState.params.timeZone === undefined) {
+            params.timeZone = inferTimeZone(params.latitude, params.longitude);
+        }
+
         const skyControl: SkyControl = {
             exposure: 6.99,
             mieCoefficient: 0.012,
             mieDirectionalG: 1,
             rayleigh: 0.425,
             turbidity: 10,
+            ...initialState.sky,
         };
+        this.skyControl = skyControl;
 
         const { ambientLight, sunLight } = createLights();
+        this.ambientLight = ambientLight;
+        this.sunLight = sunLight;
         sunLight.shadow.camera.top = params.radius;
         sunLight.shadow.camera.bottom = -params.radius;
         sunLight.shadow.camera.left = -params.radius;
@@ -86,7 +175,23 @@ class World {
         const sunSphere = createSunSphere();
 
         const base = createBase(params);
-        const sunPath = new SunPath(params, sunSphere, sunLight, base);
+        // The default wall clock was read in the default location's zone, so without a linked time the store starts
+        // from the current instant instead
+        const store = new SceneStore(params, initialState.time ?? Date.now());
+        const sunPath = new SunPath(store, sunSphere, sunLight, base);
+        this.sunPath = sunPath;
+        new Hud(
+            {
+                hijri: document.querySelector('#hijri-display'),
+                moon: document.querySelector('#moon-display'),
+                prayer: document.querySelector('#prayer-display'),
+                qibla: document.querySelector('#qibla-display'),
+                sun: document.querySelector('#sun-display'),
+                time: document.querySelector('#time-display'),
+                timetable: document.querySelector('#prayer-timetable'),
+            },
+            sunPath,
+        );
 
         const sky = new DynamicSky(skyControl, sunPath.sphereLight, this.renderer);
 
@@ -95,11 +200,27 @@ class World {
         // const axesHelper = createAxesHelper(30)
         sunShadowHelper.visible = false;
 
+        this.visibilityTargets = {
+            orientation: base,
+            qibla: base.getObjectByName('qiblaArrow'),
+            shadowHelper: sunShadowHelper,
+            sunHelper,
+            sunSphere,
+        };
+
         this.loop.updatables.push(base, this.controls, sunPath, sky);
+        const timelineElement = document.querySelector('#timeline');
+        if (timelineElement) {
+            new Timeline(timelineElement, sunPath);
+        }
+        const fastingChartElement = document.querySelector<HTMLElement>('#fasting-chart');
+        if (fastingChartElement) {
+            new FastingChart(fastingChartElement, sunPath);
+        }
 
         this.scene.add(sky.sky, ambientLight, sunHelper, sunShadowHelper, sunPath.sunPathLight);
 
-        const cameraControl = {
+        this.cameraControl = {
             birdView: () => {
                 this.activeCamera = this.birdCamera;
                 this.loop.camera = this.birdCamera;
@@ -114,8 +235,21 @@ class World {
             },
         };
 
+        this.insolation = new InsolationAnalysis(
+            store.params,
+            document.querySelector<HTMLElement>('#insolation-legend'),
+        );
+        this.probes = new PointProbes(
+            sunPath,
+            base,
+            () => this.activeCamera,
+            this.renderer.domElement,
+            document.querySelector<HTMLElement>('#probe-panel'),
+        );
+        this.scene.add(this.probes.group);
+        this.resizer = new Resizer(container, this.activeCamera, this.renderer);
+
         this.gui = createGUI(
-            params,
             ambientLight,
             sunLight,
             sunHelper,
@@ -123,9 +257,26 @@ class World {
             sunPath,
             this.controls,
             skyControl,
-            cameraControl,
+            this.cameraControl,
+            {
+                applyState: (state) => this.applySceneState(state),
+                getState: () => this.getSceneState(),
+            },
+            this.insolation,
+            this.probes,
+            new TimeLapseExport(this.loop, this.resizer, sunPath),
+            new FrameBenchmark(this.loop, sunPath),
         );
-        this.resizer = new Resizer(container, this.activeCamera, this.renderer);
+
+        this.applyViewState(initialState);
+        // the camera, lights and sky live outside the store, so their changes ask for a write themselves
+        const scheduleLinkUpdate = createSceneLinkUpdater(store, () => this.getSceneState());
+        const scheduleAutosave = createSettingsAutosave(store, () => this.getSceneState());
+        for (const schedule of [scheduleLinkUpdate, scheduleAutosave]) {
+            this.gui.onChange(schedule);
+            this.controls.addEventListener('end', schedule);
+            document.addEventListener('keyup', schedule);
+        }
 
         this.tl = gsap.timeline({ repeat: -1 });
     }
@@ -141,6 +292,12 @@ class World {
         this.tl.to(birds.position, { delay: 1, duration: 60, x: 100, z: 120 });
         const player = createPlayer(this.firstPersonCamera, house);
         this.loop.updatables.push(player);
+        this.player = player;
+        this.insolation.setModel(house, player.octree);
+        this.probes.setModel(house, player.octree);
+        if (this.pendingFirstPersonCamera) {
+            this.placePlayer(this.pendingFirstPersonCamera);
+        }
         house.traverse((n) => {
             if ((n as Mesh).isMesh) {
                 const material = (n as Mesh).material;
@@ -159,6 +316,83 @@ class World {
         }
     }
 
+    private placePlayer({ position, target }: CameraState) {
+        if (!this.player) {
+            this.pendingFirstPersonCamera = { mode: 'firstPerson', position, target };
+            return;
+        }
+        this.pendingFirstPersonCamera = undefined;
+        this.player.translate(new Vector3(...position).sub(this.player.end));
+        this.firstPersonCamera.position.copy(this.player.end);
+        this.firstPersonCamera.lookAt(...target);
+    }
+
+    // Everything that is not a SunPath param: lights, visibility toggles and the camera
+    private applyViewState({ camera, light, visibility }: SceneState) {
+        this.ambientLight.intensity = light.ambientIntensity ?? this.ambientLight.intensity;
+        this.sunLight.castShadow = light.castShadow ?? this.sunLight.castShadow;
+        this.sunLight.shadow.bias = light.shadowBias ?? this.sunLight.shadow.bias;
+        this.sunLight.intensity = light.sunIntensity ?? this.sunLight.intensity;
+        for (const name of visibilityNames) {
+            const target = this.visibilityTargets[name];
+            const visible = visibility[name];
+            if (target && visible !== undefined) {
+                target.visible = visible;
+            }
+        }
+        if (camera?.mode === 'bird') {
+            this.cameraControl.birdView();
+            this.birdCamera.position.set(...camera.position);
+            this.controls.target.set(...camera.target);
+        } else if (camera?.mode === 'firstPerson') {
+            this.cameraControl.firstPerson();
+            this.placePlayer(camera);
+        }
+    }
+
+    private applySceneState(state: SceneState) {
+        this.sunPath.store.set(state.params);
+        Object.assign(this.skyControl, state.sky);
+        this.applyViewState(state);
+        if (state.time !== undefined) {
+            this.sunPath.setDate(state.time);
+        }
+        for (const controller of this.gui.controllersRecursive()) {
+            controller.updateDisplay();
+        }
+    }
+
+    private getSceneState(): SceneState {
+        const isFirstPerson = this.activeCamera === this.firstPersonCamera;
+        const target = isFirstPerson
+            ? this.activeCamera.getWorldDirection(new Vector3()).add(this.activeCamera.position)
+            : this.controls.target;
+        const visibility: SceneState['visibility'] = {};
+        for (const name of visibilityNames) {
+            const object = this.visibilityTargets[name];
+            if (object) {
+                visibility[name] = object.visible;
+            }
+        }
+        return {
+            camera: {
+                mode: isFirstPerson ? 'firstPerson' : 'bird',
+                position: this.activeCamera.position.toArray(),
+                target: target.toArray(),
+            },
+            light: {
+                ambientIntensity: this.ambientLight.intensity,
+                castShadow: this.sunLight.castShadow,
+                shadowBias: this.sunLight.shadow.bias,
+                sunIntensity: this.sunLight.intensity,
+            },
+            params: pickSceneParams(this.sunPath.params),
+            sky: { ...this.skyControl },
+            time: this.sunPath.date,
+            visibility,
+        };
+    }
+
     start() {
         this.loop.start();
     }
@@ -4,9 +4,12 @@ import {
     BufferGeometry,
     Float32BufferAttribute,
     CylinderGeometry,
+    DoubleSide,
     Mesh,
     MeshStandardMaterial,
     MeshBasicMaterial,
+    Shape,
+    ShapeGeometry,
 } from 'three';
 import { SunPathParams } from '../systems/SunPath';
 
@@ -86,6 +89,23 @@ function createBase(params: SunPathParams) {
 
     base.add(arrowN, arrowS, arrowL, arrowO);
 
+    // Qibla arrow, drawn pointing north and rotated to the bearing of the Kaaba by SunPath
+    const inner = params.radius * 0.55;
+    const outer = params.radius - 2;
+    const qiblaShape = new Shape()
+        .moveTo(-inner, 0.4)
+        .lineTo(-outer + 3, 0.4)
+        .lineTo(-outer + 3, 1.5)
+        .lineTo(-outer, 0)
+        .lineTo(-outer + 3, -1.5)
+        .lineTo(-outer + 3, -0.4)
+        .lineTo(-inner, -0.4);
+    const qiblaGeometry = new ShapeGeometry(qiblaShape).rotateX(-Math.PI / 2);
+    const qiblaArrow = new Mesh(qiblaGeometry, new MeshBasicMaterial({ color: 'limegreen', side: DoubleSide }));
+    qiblaArrow.name = 'qiblaArrow';
+    qiblaArrow.position.y = 1.01;
+    base.add(qiblaArrow);
+
     base.tick = (_delta: number) => {
         // base.rotation.y += delta * radiansPerSecond; // currently disabled
     };
@@ -0,0 +1,53 @@
+import {
+    BufferGeometry,
+    DoubleSide,
+    Float32BufferAttribute,
+    Group,
+    LineBasicMaterial,
+    LineSegments,
+    Mesh,
+    MeshBasicMaterial,
+    RingGeometry,
+} from 'three';
+import { degToRad, toCartesian } from '../systems/engine';
+import { createLabel } from './label';
+
+// Horizon point of a compass bearing (degrees clockwise from north), in the axes of the sun path
+const atBearing = (bearing: number, radius: number, y = 0) => {
+    const { x, z } = toCartesian(0, degToRad(bearing) - Math.PI, radius);
+    return [x, y, z];
+};
+
+// Degree scale on the horizon just outside the base, ticked every 5° and labelled every 30° between the cardinal
+// letters of the base
+function createHorizonRing(radius: number) {
+    const ring = new Group();
+    ring.name = 'horizonRing';
+
+    const band = new Mesh(
+        new RingGeometry(radius - 1, radius + 1.5, 180).rotateX(-Math.PI / 2),
+        new MeshBasicMaterial({ color: '#2c3e50', opacity: 0.6, side: DoubleSide, transparent: true }),
+    );
+
+    const positions: number[] = [];
+    for (let bearing = 0; bearing < 360; bearing += 5) {
+        const length = bearing % 30 === 0 ? 1.5 : bearing % 10 === 0 ? 1 : 0.5;
+        positions.push(...atBearing(bearing, radius, 0.02), ...atBearing(bearing, radius + length, 0.02));
+    }
+    const tickGeometry = new BufferGeometry();
+    tickGeometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
+    const ticks = new LineSegments(tickGeometry, new LineBasicMaterial({ color: 'white' }));
+    ring.add(band, ticks);
+
+    for (let bearing = 30; bearing < 360; bearing += 30) {
+        if (bearing % 90 !== 0) {
+            const label = createLabel(`${bearing}°`, 'white', 0.9);
+            label.position.fromArray(atBearing(bearing, radius + 2.8, 0.5));
+            ring.add(label);
+        }
+    }
+
+    return ring;
+}
+
+export { atBearing, createHorizonRing };
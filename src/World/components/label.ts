@@ -0,0 +1,28 @@
+import { CanvasTexture, Sprite, SpriteMaterial, SRGBColorSpace } from 'three';
+
+function createLabel(text: string, color = 'white', height = 1) {
+    const font = 'bold 30px "Gill Sans", Calibri, sans-serif';
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d')!;
+    // long texts widen the canvas instead of being squeezed into it
+    context.font = font;
+    canvas.width = Math.max(256, Math.ceil(context.measureText(text).width) + 16);
+    canvas.height = 64;
+    context.font = font;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.lineWidth = 6;
+    context.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+    context.strokeText(text, canvas.width / 2, canvas.height / 2);
+    context.fillStyle = color;
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+    const texture = new CanvasTexture(canvas);
+    texture.colorSpace = SRGBColorSpace;
+    const label = new Sprite(new SpriteMaterial({ depthWrite: false, map: texture, transparent: true }));
+    label.scale.set((height * canvas.width) / canvas.height, height, 1);
+
+    return label;
+}
+
+export { createLabel };
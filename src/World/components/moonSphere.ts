@@ -0,0 +1,35 @@
+import { Color, Mesh, ShaderMaterial, SphereGeometry, Vector3 } from 'three';
+
+// Lit only by the direction of the sun, so the terminator shows the phase whatever the scene lights do;
+// the moon is never rotated, so its object space normals share the axes of the sun direction
+function createMoonSphere(): Mesh {
+    const material = new ShaderMaterial({
+        fragmentShader: /* glsl */ `
+            uniform vec3 color;
+            uniform vec3 sunDirection;
+            varying vec3 vNormal;
+
+            void main() {
+                float light = smoothstep(-0.03, 0.03, dot(normalize(vNormal), sunDirection));
+                gl_FragColor = vec4(color * mix(0.06, 1.0, light), 1.0);
+            }
+        `,
+        uniforms: {
+            color: { value: new Color('#f4f1e6') },
+            sunDirection: { value: new Vector3(1, 0, 0) },
+        },
+        vertexShader: /* glsl */ `
+            varying vec3 vNormal;
+
+            void main() {
+                vNormal = normal;
+                gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+            }
+        `,
+    });
+    const moonSphere = new Mesh(new SphereGeometry(0.8, 32, 16), material);
+    moonSphere.name = 'moonSphere';
+    return moonSphere;
+}
+
+export { createMoonSphere };
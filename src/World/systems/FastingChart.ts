@@ -0,0 +1,251 @@
+import { getDayBounds, getSunEvents } from './engine';
+import { hijriMonthNames } from './hijri';
+import { pickPrayerSettings } from './prayerSettings';
+import type { StoreChange } from './SceneStore';
+import type { SunPath } from './SunPath';
+import { formatHours, formatZonedDate, getZonedNoons, getZonedParts, monthLabels, zonedTimeToUtc } from './timezone';
+
+// Durations in hours, NaN when an event does not happen (polar day or night, or no Fajr at high latitudes)
+interface DayDurations {
+    date: number;
+    dayLength: number;
+    fasting: number;
+    nightLength: number;
+    ramadan: boolean;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const RAMADAN = 9;
+
+const series = [
+    { color: '#eb984e', key: 'fasting', label: 'Fasting (Fajr to Maghrib)' },
+    { color: '#f4d03f', key: 'dayLength', label: 'Day (sunrise to sunset)' },
+    { color: '#5dade2', key: 'nightLength', label: 'Night (sunset to sunrise)' },
+] as const;
+
+const margin = { bottom: 18, left: 28, right: 8, top: 8 };
+
+// Ramadan can appear twice in one Gregorian year, so consecutive Ramadan days are grouped into ranges
+function getRanges(durations: DayDurations[]) {
+    const ranges: DayDurations[][] = [];
+    for (const [i, day] of durations.entries()) {
+        if (!day.ramadan) {
+            continue;
+        }
+        if (i > 0 && durations[i - 1].ramadan) {
+            ranges[ranges.length - 1].push(day);
+        } else {
+            ranges.push([day]);
+        }
+    }
+    return ranges;
+}
+
+// Yearly chart of the fasting duration, day length and night length at the current location and settings
+class FastingChart {
+    sunPath: SunPath;
+    element: HTMLElement;
+    canvas: HTMLCanvasElement;
+    summaryText: HTMLElement;
+    durations: DayDurations[];
+    dataKey: string;
+    drawnKey: string;
+
+    constructor(element: HTMLElement, sunPath: SunPath) {
+        this.sunPath = sunPath;
+        this.element = element;
+        this.durations = [];
+        this.dataKey = '';
+        this.drawnKey = '';
+
+        this.canvas = document.createElement('canvas');
+        this.canvas.addEventListener('click', (event) => this.jumpTo(event));
+        const legend = document.createElement('div');
+        legend.className = 'fasting-chart-legend';
+        for (const { color, label } of series) {
+            const item = document.createElement('span');
+            item.style.color = color;
+            item.textContent = `■ ${label}`;
+            legend.append(item);
+        }
+        this.summaryText = document.createElement('div');
+        this.summaryText.className = 'fasting-chart-summary';
+        element.append(this.canvas, legend, this.summaryText);
+        this.update();
+        sunPath.store.subscribe((change) => this.handleChange(change));
+        window.addEventListener('resize', () => this.update());
+    }
+
+    // The chart only changes with the day (its marker), the place, the prayer settings and the Hijri calendar
+    handleChange({ day, keys, topics }: StoreChange) {
+        const hijri = keys.has('hijriAdjustment') || keys.has('hijriCalendar');
+        if (day || hijri || keys.has('showFastingChart') || topics.has('location') || topics.has('prayer')) {
+            this.update();
+        }
+    }
+
+    computeDurations(year: number) {
+        const { params } = this.sunPath;
+        const noons = getZonedNoons({ day: 1, month: 1, year }, { day: 31, month: 12, year }, params.timeZone);
+        return noons.map((date): DayDurations => {
+            const prayerTimes = this.sunPath.getPrayerTimes(date);
+            const { dayLength } = getSunEvents(date, params);
+            const { end, start } = getDayBounds(date, params.timeZone);
+            return {
+                date,
+                dayLength: dayLength / HOUR,
+                fasting: (prayerTimes.maghrib.getTime() - prayerTimes.fajr.getTime()) / HOUR,
+                nightLength: (end - start - dayLength) / HOUR,
+                ramadan: this.sunPath.getHijriDate(date).month === RAMADAN,
+            };
+        });
+    }
+
+    get plot() {
+        const { height, width } = this.canvas;
+        return {
+            height: height - margin.top - margin.bottom,
+            left: margin.left,
+            top: margin.top,
+            width: width - margin.left - margin.right,
+        };
+    }
+
+    draw(today: number) {
+        const context = this.canvas.getContext('2d');
+        if (!context) {
+            return;
+        }
+        const { height, left, top, width } = this.plot;
+        const x = (day: number) => left + ((day + 0.5) / this.durations.length) * width;
+        const y = (hours: number) => top + height - (hours / 24) * height;
+        const dayWidth = width / this.durations.length;
+        context.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        context.font = '10px sans-serif';
+
+        context.fillStyle = 'rgb(255 255 255 / 15%)';
+        for (const range of getRanges(this.durations)) {
+            const first = this.durations.indexOf(range[0]);
+            context.fillRect(x(first) - dayWidth / 2, top, range.length * dayWidth, height);
+        }
+
+        context.strokeStyle = 'rgb(255 255 255 / 20%)';
+        context.fillStyle = 'white';
+        context.textAlign = 'right';
+        context.textBaseline = 'middle';
+        for (let hours = 0; hours <= 24; hours += 6) {
+            context.beginPath();
+            context.moveTo(left, y(hours));
+            context.lineTo(left + width, y(hours));
+            context.stroke();
+            context.fillText(`${hours}h`, left - 4, y(hours));
+        }
+        context.textAlign = 'center';
+        context.textBaseline = 'top';
+        const year = getZonedParts(this.durations[0].date, this.sunPath.params.timeZone).year;
+        for (const [month, label] of monthLabels.entries()) {
+            const day = (Date.UTC(year, month, 1) - Date.UTC(year, 0, 1)) / (24 * HOUR);
+            context.fillText(label[0], x(day + 15), top + height + 4);
+        }
+
+        context.lineWidth = 1.5;
+        for (const { color, key } of series) {
+            context.strokeStyle = color;
+            context.beginPath();
+            let drawing = false;
+            for (const [day, durations] of this.durations.entries()) {
+                const hours = durations[key];
+                if (Number.isNaN(hours)) {
+                    drawing = false;
+                } else if (drawing) {
+                    context.lineTo(x(day), y(hours));
+                } else {
+                    context.moveTo(x(day), y(hours));
+                    drawing = true;
+                }
+            }
+            context.stroke();
+        }
+        context.lineWidth = 1;
+
+        context.strokeStyle = 'gold';
+        context.beginPath();
+        context.moveTo(x(today), top);
+        context.lineTo(x(today), top + height);
+        context.stroke();
+    }
+
+    summarize(today: number) {
+        const { timeZone } = this.sunPath.params;
+        const lines = getRanges(this.durations).map((range) => {
+            const fasts = range.map((day) => day.fasting).filter((hours) => !Number.isNaN(hours));
+            const { year } = this.sunPath.getHijriDate(range[0].date);
+            const dates = `${formatZonedDate(range[0].date, timeZone)} to ${formatZonedDate(range[range.length - 1].date, timeZone)}`;
+            const span =
+                fasts.length > 0
+                    ? `fasts ${formatHours(Math.min(...fasts))} to ${formatHours(Math.max(...fasts))}`
+                    : 'no Fajr time on any day';
+            return `${hijriMonthNames[RAMADAN - 1]} ${year}: ${dates}, ${span}`;
+        });
+        const current = this.durations[today];
+        if (current) {
+            lines.push(
+                `${formatZonedDate(current.date, timeZone)}: fasting ${formatHours(current.fasting)}, ` +
+                    `day ${formatHours(current.dayLength)}, night ${formatHours(current.nightLength)}`,
+            );
+        }
+        this.summaryText.textContent = lines.join('\n');
+    }
+
+    // Jumps to the clicked day, keeping the time of day
+    jumpTo(event: MouseEvent) {
+        const { left, width } = this.plot;
+        const bounds = this.canvas.getBoundingClientRect();
+        const canvasX = ((event.clientX - bounds.left) / bounds.width) * this.canvas.width;
+        const day = Math.floor(((canvasX - left) / width) * this.durations.length);
+        if (day < 0 || day >= this.durations.length) {
+            return;
+        }
+        const { timeZone } = this.sunPath.params;
+        const { hour, minute } = getZonedParts(this.sunPath.date, timeZone);
+        const { day: dayOfMonth, month, year } = getZonedParts(this.durations[day].date, timeZone);
+        this.sunPath.setDate(zonedTimeToUtc({ day: dayOfMonth, hour, minute, month, year }, timeZone));
+    }
+
+    update() {
+        const { date, params } = this.sunPath;
+        this.element.hidden = !params.showFastingChart;
+        if (!params.showFastingChart) {
+            return;
+        }
+
+        const { year, month, day } = getZonedParts(date, params.timeZone);
+        const { hijriAdjustment, hijriCalendar, latitude, longitude, timeZone } = params;
+        const dataKey = JSON.stringify([
+            year,
+            latitude,
+            longitude,
+            timeZone,
+            hijriAdjustment,
+            hijriCalendar,
+            pickPrayerSettings(params),
+        ]);
+        if (dataKey !== this.dataKey) {
+            this.dataKey = dataKey;
+            this.durations = this.computeDurations(year);
+        }
+
+        const today = (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / (24 * HOUR);
+        const drawnKey = `${dataKey}${today}${this.canvas.clientWidth}`;
+        if (drawnKey !== this.drawnKey) {
+            this.drawnKey = drawnKey;
+            this.canvas.width = this.canvas.clientWidth;
+            this.canvas.height = this.canvas.clientHeight;
+            this.draw(today);
+            this.summarize(today);
+        }
+    }
+}
+
+export { FastingChart };
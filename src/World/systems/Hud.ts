@@ -0,0 +1,143 @@
+import { Prayer } from 'adhan';
+import { MathUtils } from 'three';
+import { getSunEvents } from './engine';
+import { formatHijriDate } from './hijri';
+import { getMoonPhase } from './moon';
+import { PrayerTimetable, prayerLabels } from './PrayerTimetable';
+import { getDistanceToKaaba, getKaabaTransits, getQiblaBearing } from './qibla';
+import type { StoreChange } from './SceneStore';
+import type { SunPath } from './SunPath';
+import { addZonedDays, formatHours, formatZonedDate, formatZonedTime, getZonedParts, pad } from './timezone';
+
+export interface HudElements {
+    hijri: Element | null;
+    moon: Element | null;
+    prayer: Element | null;
+    qibla: Element | null;
+    sun: Element | null;
+    time: Element | null;
+    timetable: Element | null;
+}
+
+// Text overlays of the simulated time, prayer, Hijri date, qibla, moon and sun, refreshed from the store's changes;
+// created after the SunPath so its moon times are already up to date when a change arrives
+class Hud {
+    sunPath: SunPath;
+    elements: HudElements;
+    prayerTimetable: PrayerTimetable | null;
+
+    constructor(elements: HudElements, sunPath: SunPath) {
+        this.sunPath = sunPath;
+        this.elements = elements;
+        this.prayerTimetable = elements.timetable ? new PrayerTimetable(elements.timetable) : null;
+        sunPath.store.subscribe((change) => this.handleChange(change));
+        this.updatePrayerInfo();
+        this.updateHijriInfo();
+        this.updateQiblaInfo();
+        this.updateMoonInfo();
+        this.updateSunInfo();
+    }
+
+    get params() {
+        return this.sunPath.params;
+    }
+
+    handleChange({ date, day, keys, topics, year }: StoreChange) {
+        const place = keys.has('latitude') || keys.has('longitude') || keys.has('timeZone');
+        if (date || place || topics.has('prayer')) {
+            this.updatePrayerInfo();
+        }
+        if (day || place || keys.has('hijriCalendar') || keys.has('hijriAdjustment')) {
+            this.updateHijriInfo();
+        }
+        if (place || year) {
+            this.updateQiblaInfo();
+        }
+        if (date || place) {
+            this.updateMoonInfo();
+        }
+        if (day || place) {
+            this.updateSunInfo();
+        }
+    }
+
+    updatePrayerInfo() {
+        const { prayer, time } = this.elements;
+        if (!time || !prayer) {
+            return;
+        }
+
+        const date = new Date(this.sunPath.date);
+        const prayerTimes = this.sunPath.getPrayerTimes(date);
+        const currentPrayer = prayerTimes.currentPrayer(date);
+        const prayerName = currentPrayer === Prayer.None ? 'Waiting for Fajr' : prayerLabels[currentPrayer];
+
+        const { day, month } = getZonedParts(date, this.params.timeZone);
+
+        time.textContent = `${formatZonedTime(date, this.params.timeZone)} - ${pad(day)}/${pad(month)}`;
+        prayer.textContent = `Current: ${prayerName}`;
+        this.prayerTimetable?.update(date, prayerTimes, this.params.timeZone, () =>
+            this.sunPath.getPrayerTimes(addZonedDays(date, 1, this.params.timeZone)),
+        );
+    }
+
+    updateHijriInfo() {
+        if (this.elements.hijri) {
+            this.elements.hijri.textContent = formatHijriDate(this.sunPath.getHijriDate());
+        }
+    }
+
+    updateQiblaInfo() {
+        if (!this.elements.qibla) {
+            return;
+        }
+
+        const { latitude, longitude, timeZone } = this.params;
+        const bearing = getQiblaBearing(latitude, longitude);
+        const distance = getDistanceToKaaba(latitude, longitude);
+        const { kaaba, antipode } = getKaabaTransits(getZonedParts(this.sunPath.date, timeZone).year);
+        const formatTransit = (date: Date) => `${formatZonedDate(date, timeZone)} ${formatZonedTime(date, timeZone)}`;
+
+        this.elements.qibla.textContent = [
+            `Qibla: ${bearing.toFixed(1)}° - ${Math.round(distance)} km`,
+            `Sun over Kaaba: ${kaaba.map(formatTransit).join(', ')}`,
+            `Sun over antipode: ${antipode.map(formatTransit).join(', ')}`,
+        ].join('\n');
+    }
+
+    updateMoonInfo() {
+        if (!this.elements.moon) {
+            return;
+        }
+
+        const { moonrise, moonset } = this.sunPath.moonTimes;
+        const { fraction, name } = getMoonPhase(this.sunPath.date);
+        const formatMoonTime = (time: Date | null) => (time ? formatZonedTime(time, this.params.timeZone) : '--:--');
+        this.elements.moon.textContent = [
+            `Moon: ${name}, ${Math.round(fraction * 100)}% lit`,
+            `Moonrise ${formatMoonTime(moonrise)} - Moonset ${formatMoonTime(moonset)}`,
+        ].join('\n');
+    }
+
+    updateSunInfo() {
+        if (!this.elements.sun) {
+            return;
+        }
+
+        const { timeZone } = this.params;
+        const events = getSunEvents(this.sunPath.date, this.params);
+        const maxAltitude = MathUtils.radToDeg(this.sunPath.getSunPosition(events.solarNoon).altitude);
+        const formatEvent = (time: Date, bearing: number) =>
+            Number.isNaN(bearing) ? '--:--' : `${formatZonedTime(time, timeZone)} at ${bearing.toFixed(1)}°`;
+        let dayLength = formatHours(events.dayLength / 3600000);
+        if (Number.isNaN(events.dayLength)) {
+            dayLength = maxAltitude > 0 ? 'sun up all day' : 'sun down all day';
+        }
+        this.elements.sun.textContent = [
+            `Sunrise ${formatEvent(events.sunrise, events.sunriseBearing)} - Sunset ${formatEvent(events.sunset, events.sunsetBearing)}`,
+            `Solar noon ${formatZonedTime(events.solarNoon, timeZone)} at ${maxAltitude.toFixed(1)}° - Day length ${dayLength}`,
+        ].join('\n');
+    }
+}
+
+export { Hud };
@@ -1,31 +1,39 @@
-import { Clock, Camera, Scene, WebGLRenderer } from 'three';
+import { type Camera, Clock, type Scene, type WebGLRenderer } from 'three';
 
 interface Updatable {
     tick(delta: number): void;
 }
 
-const clock = new Clock();
-
 class Loop {
     camera: Camera;
     scene: Scene;
     renderer: WebGLRenderer;
     updatables: Updatable[];
+    clock: Clock;
+    // in fixed timestep mode every frame advances by exactly 1 / frameRate seconds, however long it took,
+    // so time-lapses play back the same way on every machine
+    fixedTimestep: boolean;
+    frameRate: number;
 
     constructor(camera: Camera, scene: Scene, renderer: WebGLRenderer) {
         this.camera = camera;
         this.scene = scene;
         this.renderer = renderer;
         this.updatables = [];
+        this.clock = new Clock();
+        this.fixedTimestep = false;
+        this.frameRate = 30;
     }
 
     start() {
+        // the time spent stopped is not one long frame
+        this.clock.getDelta();
         this.renderer.setAnimationLoop(() => {
             // tell every animated object to tick forward one frame
             this.tick();
 
             // render a frame
-            this.renderer.render(this.scene, this.camera);
+            this.render();
         });
     }
 
@@ -33,9 +41,14 @@ class Loop {
         this.renderer.setAnimationLoop(null);
     }
 
+    render() {
+        this.renderer.render(this.scene, this.camera);
+    }
+
     tick() {
         // only call the getDelta function once per frame!
-        const delta = clock.getDelta();
+        const clockDelta = this.clock.getDelta();
+        const delta = this.fixedTimestep ? 1 / this.frameRate : clockDelta;
 
         // console.log(
         //   `The last frame rendered in ${delta * 1000} milliseconds`,
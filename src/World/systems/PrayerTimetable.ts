@@ -0,0 +1,86 @@
+import type { PrayerTimes } from 'adhan';
+import { type PrayerName, prayerNames } from './prayerSettings';
+import { formatTimeZoneOffset, formatZonedTime, pad } from './timezone';
+
+const prayerLabels: Record<PrayerName, string> = {
+    asr: 'Asr',
+    dhuhr: 'Dhuhr',
+    fajr: 'Fajr',
+    isha: 'Isha',
+    maghrib: 'Maghrib',
+    sunrise: 'Sunrise',
+};
+
+const prayerColors: Record<PrayerName, string> = {
+    asr: '#eb984e',
+    dhuhr: '#f4d03f',
+    fajr: '#5dade2',
+    isha: '#8e44ad',
+    maghrib: '#e74c3c',
+    sunrise: '#f5b041',
+};
+
+const formatCountdown = (milliseconds: number) => {
+    const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    return `${pad(hours)}:${pad(minutes)}:${pad(totalSeconds % 60)}`;
+};
+
+// Polar days and nights leave some prayer times undefined (an Invalid Date), these are skipped
+const formatTime = (date: Date, timeZone: string) =>
+    Number.isNaN(date.getTime()) ? '--:--' : formatZonedTime(date, timeZone);
+
+const findNextPrayer = (date: Date, prayerTimes: PrayerTimes) =>
+    prayerNames.find((prayer) => prayerTimes[prayer].getTime() > date.getTime());
+
+class PrayerTimetable {
+    element: Element;
+    rows: Record<PrayerName, { row: HTMLElement; time: HTMLElement }>;
+    nextText: HTMLElement;
+    zoneText: HTMLElement;
+
+    constructor(element: Element) {
+        this.element = element;
+        const table = document.createElement('table');
+        this.rows = {} as PrayerTimetable['rows'];
+        for (const prayer of prayerNames) {
+            const row = table.insertRow();
+            row.insertCell().textContent = prayerLabels[prayer];
+            const time = row.insertCell();
+            this.rows[prayer] = { row, time };
+        }
+        this.nextText = document.createElement('div');
+        this.nextText.className = 'next-prayer';
+        this.zoneText = document.createElement('div');
+        this.zoneText.className = 'time-zone';
+        this.element.append(table, this.nextText, this.zoneText);
+    }
+
+    // tomorrow is only needed once the last prayer of the day has started, to count down to its first one
+    update(date: Date, prayerTimes: PrayerTimes, timeZone: string, getTomorrow: () => PrayerTimes) {
+        const currentPrayer = prayerTimes.currentPrayer(date);
+        for (const prayer of prayerNames) {
+            const { row, time } = this.rows[prayer];
+            time.textContent = formatTime(prayerTimes[prayer], timeZone);
+            row.classList.toggle('current', prayer === currentPrayer);
+        }
+
+        const nextPrayer = findNextPrayer(date, prayerTimes);
+        let next = nextPrayer && { label: prayerLabels[nextPrayer], time: prayerTimes[nextPrayer] };
+        if (!next) {
+            const tomorrow = getTomorrow();
+            const tomorrowPrayer = findNextPrayer(date, tomorrow);
+            next = tomorrowPrayer && {
+                label: `${prayerLabels[tomorrowPrayer]} (tomorrow)`,
+                time: tomorrow[tomorrowPrayer],
+            };
+        }
+        this.nextText.textContent = next
+            ? `Next: ${next.label} in ${formatCountdown(next.time.getTime() - date.getTime())}`
+            : 'Next: --:--';
+        this.zoneText.textContent = `${timeZone} (${formatTimeZoneOffset(date, timeZone)})`;
+    }
+}
+
+export { PrayerTimetable, prayerColors, prayerLabels };
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'bun:test';
+import { SceneStore, type StoreChange } from './SceneStore';
+import type { SunPathParams } from './SunPath';
+
+const makkah = { latitude: 21.4225, longitude: 39.8262, timeZone: 'Asia/Riyadh' };
+
+const createParams = (): SunPathParams => ({
+    ...makkah,
+    analemmaFirstHour: 7,
+    analemmaHourStep: 1,
+    analemmaLastHour: 17,
+    analemmaTimeBasis: 'clock',
+    animateTime: false,
+    autoTimeZone: true,
+    baseY: 0,
+    calculationMethod: 'Other',
+    day: 1,
+    fajrAngle: 18,
+    gnomonHeight: 2,
+    highLatitudeRule: 'middleofthenight',
+    hijriAdjustment: 0,
+    hijriCalendar: 'ummAlQura',
+    hour: 12,
+    ishaAngle: 18,
+    ishaInterval: 0,
+    madhab: 'shafi',
+    minute: 0,
+    month: 1,
+    northOffset: 0,
+    prayerAdjustments: { asr: 0, dhuhr: 0, fajr: 0, isha: 0, maghrib: 0, sunrise: 0 },
+    radius: 10,
+    rounding: 'nearest',
+    shadowBias: 0,
+    showAnalemmaLabels: true,
+    showAnalemmas: true,
+    showFastingChart: false,
+    showGnomon: false,
+    showHorizonRing: true,
+    showMonthlyPaths: false,
+    showMoon: true,
+    showMoonDayPath: false,
+    showPrayerMarkers: true,
+    showSeasonalPaths: false,
+    showSunDayPath: true,
+    showSunSurface: true,
+    showTwilightCones: false,
+    sunSurfaceDayStep: 7,
+    sunSurfaceMinuteStep: 30,
+    timeSpeed: 100,
+});
+
+// A store at noon of 1 March 2026 in Makkah, with the changes it reports
+const createStore = (date = Date.parse('2026-03-01T09:00:00Z')) => {
+    const store = new SceneStore(createParams(), date);
+    const changes: StoreChange[] = [];
+    store.subscribe((change) => changes.push(change));
+    return { changes, store };
+};
+
+describe('SceneStore', () => {
+    describe('constructor', () => {
+        it('should set the wall clock params from the given instant in the location time zone', () => {
+            const { store } = createStore(Date.parse('2026-03-01T21:30:00Z'));
+            const { day, hour, minute, month } = store.params;
+            expect({ day, hour, minute, month }).toEqual({ day: 2, hour: 0, minute: 30, month: 3 });
+        });
+
+        it('should copy the params and the prayer adjustments it is given', () => {
+            const params = createParams();
+            const store = new SceneStore(params, 0);
+            store.set({ latitude: 10, prayerAdjustments: { fajr: 2 } as SunPathParams['prayerAdjustments'] });
+            expect(params.latitude).toBe(makkah.latitude);
+            expect(params.prayerAdjustments.fajr).toBe(0);
+        });
+    });
+
+    describe('setDate', () => {
+        it('should move the wall clock and flag a move within the day', () => {
+            const { changes, store } = createStore();
+            store.setDate(Date.parse('2026-03-01T10:15:00Z'));
+            expect(store.params.hour).toBe(13);
+            expect(store.params.minute).toBe(15);
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({ date: true, day: false, year: false });
+            expect([...changes[0].keys].sort()).toEqual(['hour', 'minute']);
+            expect([...changes[0].topics]).toEqual(['time']);
+        });
+
+        it('should flag a new day at local midnight rather than UTC midnight', () => {
+            const { changes, store } = createStore();
+            store.setDate(Date.parse('2026-03-01T21:30:00Z'));
+            store.setDate(Date.parse('2026-03-02T01:00:00Z'));
+            expect(changes.map(({ day }) => day)).toEqual([true, false]);
+        });
+
+        it('should flag a new year in the location time zone', () => {
+            const { changes, store } = createStore();
+            store.setDate(Date.parse('2026-12-31T20:59:00Z'));
+            store.setDate(Date.parse('2026-12-31T21:00:00Z'));
+            expect(changes.map(({ year }) => year)).toEqual([false, true]);
+            expect(store.params.month).toBe(1);
+        });
+
+        it('should not notify when the instant does not move', () => {
+            const { changes, store } = createStore();
+            store.setDate(store.date);
+            expect(changes).toHaveLength(0);
+        });
+    });
+
+    describe('set', () => {
+        it('should clamp a day past the end of the month to its last day', () => {
+            const { store } = createStore(Date.parse('2026-01-31T09:00:00Z'));
+            store.set({ month: 2 });
+            expect(store.params.day).toBe(28);
+            expect(store.date).toBe(Date.parse('2026-02-28T09:00:00Z'));
+            store.set({ day: 31, month: 4 });
+            expect(store.params.day).toBe(30);
+            expect(store.date).toBe(Date.parse('2026-04-30T09:00:00Z'));
+        });
+
+        it('should move the instant with the wall clock and flag the new day', () => {
+            const { changes, store } = createStore();
+            store.set({ day: 2, hour: 6 });
+            expect(store.date).toBe(Date.parse('2026-03-02T03:00:00Z'));
+            expect(changes[0]).toMatchObject({ date: true, day: true, year: false });
+        });
+
+        it('should bring the angles of a calculation method', () => {
+            const { store } = createStore();
+            store.set({ calculationMethod: 'MuslimWorldLeague' });
+            expect(store.params).toMatchObject({ fajrAngle: 18, ishaAngle: 17, ishaInterval: 0 });
+            store.set({ calculationMethod: 'UmmAlQura' });
+            expect(store.params).toMatchObject({ fajrAngle: 18.5, ishaInterval: 90 });
+        });
+
+        it('should keep the angles of a patch that carries them with its method', () => {
+            const { store } = createStore();
+            store.set({ calculationMethod: 'MuslimWorldLeague', fajrAngle: 15, ishaAngle: 15 });
+            expect(store.params).toMatchObject({
+                calculationMethod: 'MuslimWorldLeague',
+                fajrAngle: 15,
+                ishaAngle: 15,
+            });
+        });
+
+        it('should infer the time zone of a new location and keep the wall clock', () => {
+            const { changes, store } = createStore();
+            store.set({ latitude: 51.5074, longitude: -0.1278 });
+            expect(store.params.timeZone).toBe('Europe/London');
+            expect(store.params.hour).toBe(12);
+            expect(store.date).toBe(Date.parse('2026-03-01T12:00:00Z'));
+            expect(changes[0].keys.has('timeZone')).toBe(true);
+            expect([...changes[0].topics]).toEqual(['location']);
+            expect(changes[0].date).toBe(true);
+        });
+
+        it('should keep the time zone of a new location without the automatic time zone', () => {
+            const { store } = createStore();
+            store.set({ autoTimeZone: false });
+            store.set({ latitude: 51.5074, longitude: -0.1278 });
+            expect(store.params.timeZone).toBe('Asia/Riyadh');
+        });
+
+        it('should merge partial prayer adjustments', () => {
+            const { changes, store } = createStore();
+            store.set({ prayerAdjustments: { fajr: 2 } as SunPathParams['prayerAdjustments'] });
+            store.set({ prayerAdjustments: { isha: -1 } as SunPathParams['prayerAdjustments'] });
+            expect(store.params.prayerAdjustments).toMatchObject({ dhuhr: 0, fajr: 2, isha: -1 });
+            expect([...changes[1].topics]).toEqual(['prayer']);
+        });
+
+        it('should report the keys and topics of a change and skip patches that change nothing', () => {
+            const { changes, store } = createStore();
+            store.set({ showMoon: true });
+            store.set({ prayerAdjustments: { fajr: 0 } as SunPathParams['prayerAdjustments'] });
+            expect(changes).toHaveLength(0);
+            store.set({ madhab: 'hanafi', showMoon: false });
+            expect(changes).toHaveLength(1);
+            expect(changes[0]).toMatchObject({ date: false, day: false, year: false });
+            expect([...changes[0].keys].sort()).toEqual(['madhab', 'showMoon']);
+            expect([...changes[0].topics].sort()).toEqual(['display', 'prayer']);
+        });
+    });
+
+    describe('subscribe', () => {
+        it('should stop notifying once unsubscribed', () => {
+            const store = new SceneStore(createParams(), 0);
+            const changes: StoreChange[] = [];
+            const unsubscribe = store.subscribe((change) => changes.push(change));
+            store.set({ showMoon: false });
+            unsubscribe();
+            store.set({ showMoon: true });
+            expect(changes).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,175 @@
+import { inferTimeZone } from './cities';
+import { applyCalculationMethod } from './prayerSettings';
+import type { SunPathParams } from './SunPath';
+import { formatZonedDate, getZonedParts, zonedTimeToUtc } from './timezone';
+
+export type ChangeTopic = 'display' | 'location' | 'prayer' | 'time';
+
+export type ParamName = keyof SunPathParams;
+
+// Fixed when the scene is built (the size and height of the sun path and the shadow bias), so they cannot be set
+export type FixedParamName = 'baseY' | 'radius' | 'shadowBias';
+
+export type SettableParams = Omit<SunPathParams, FixedParamName>;
+
+export type SettableParamName = keyof SettableParams;
+
+export interface StoreChange {
+    keys: ReadonlySet<ParamName>;
+    topics: ReadonlySet<ChangeTopic>;
+    // the simulated instant moved, and whether it moved to another calendar day or year of the location
+    date: boolean;
+    day: boolean;
+    year: boolean;
+}
+
+export type StoreListener = (change: StoreChange) => void;
+
+const paramTopics: Record<ParamName, ChangeTopic> = {
+    analemmaFirstHour: 'display',
+    analemmaHourStep: 'display',
+    analemmaLastHour: 'display',
+    analemmaTimeBasis: 'display',
+    animateTime: 'time',
+    autoTimeZone: 'location',
+    baseY: 'display',
+    calculationMethod: 'prayer',
+    day: 'time',
+    fajrAngle: 'prayer',
+    gnomonHeight: 'display',
+    highLatitudeRule: 'prayer',
+    hijriAdjustment: 'time',
+    hijriCalendar: 'time',
+    hour: 'time',
+    ishaAngle: 'prayer',
+    ishaInterval: 'prayer',
+    latitude: 'location',
+    longitude: 'location',
+    madhab: 'prayer',
+    minute: 'time',
+    month: 'time',
+    northOffset: 'location',
+    prayerAdjustments: 'prayer',
+    radius: 'display',
+    rounding: 'prayer',
+    shadowBias: 'display',
+    showAnalemmaLabels: 'display',
+    showAnalemmas: 'display',
+    showFastingChart: 'display',
+    showGnomon: 'display',
+    showHorizonRing: 'display',
+    showMonthlyPaths: 'display',
+    showMoon: 'display',
+    showMoonDayPath: 'display',
+    showPrayerMarkers: 'display',
+    showSeasonalPaths: 'display',
+    showSunDayPath: 'display',
+    showSunSurface: 'display',
+    showTwilightCones: 'display',
+    sunSurfaceDayStep: 'display',
+    sunSurfaceMinuteStep: 'display',
+    timeSpeed: 'time',
+    timeZone: 'location',
+};
+
+const paramNames = Object.keys(paramTopics) as ParamName[];
+
+const clockNames: ParamName[] = ['day', 'hour', 'minute', 'month', 'timeZone'];
+
+// Objects (the prayer adjustments) are replaced rather than edited, so they compare by content
+const isSame = (a: unknown, b: unknown) =>
+    a === b || (typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+// The single source of truth for the params and the simulated instant. Every change goes through set or setDate,
+// which apply the rules tying the state together (the inferred time zone, the angles of a calculation method, the
+// wall clock params matching the instant) and then tell each listener once what changed
+class SceneStore {
+    private state: SunPathParams;
+    private instant: number;
+    private listeners: Set<StoreListener>;
+
+    constructor(params: SunPathParams, date?: number) {
+        this.state = { ...params, prayerAdjustments: { ...params.prayerAdjustments } };
+        this.listeners = new Set();
+        // the hour/minute/day/month params are wall clock readings in the location's time zone
+        const { year } = getZonedParts(Date.now(), params.timeZone);
+        const { day, hour, minute, month, timeZone } = params;
+        this.instant = zonedTimeToUtc({ day, hour, minute, month, year }, timeZone);
+        if (date !== undefined) {
+            this.setDate(date);
+        }
+    }
+
+    get params(): Readonly<SunPathParams> {
+        return this.state;
+    }
+
+    get date() {
+        return this.instant;
+    }
+
+    subscribe(listener: StoreListener) {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Prayer adjustments may be partial, the prayers they leave out keep their value
+    set(patch: Partial<SettableParams>) {
+        const previous = { ...this.state };
+        const previousDate = this.instant;
+        const state = this.state;
+        Object.assign(state, patch, {
+            prayerAdjustments: { ...state.prayerAdjustments, ...patch.prayerAdjustments },
+        });
+
+        const moved = (...names: ParamName[]) => names.some((name) => !isSame(previous[name], state[name]));
+        if (state.autoTimeZone && moved('latitude', 'longitude', 'autoTimeZone')) {
+            state.timeZone = inferTimeZone(state.latitude, state.longitude);
+        }
+        // a method brings its own angles, unless the patch carries them too (a saved scene or a link)
+        if (moved('calculationMethod') && patch.fajrAngle === undefined) {
+            applyCalculationMethod(state);
+        }
+        // the instant follows the wall clock, and a day past the end of the month is clamped to its last day
+        if (moved(...clockNames)) {
+            const parts = getZonedParts(this.instant, state.timeZone);
+            state.day = Math.min(state.day, new Date(Date.UTC(parts.year, state.month, 0)).getUTCDate());
+            const { day, hour, minute, month } = state;
+            this.instant = zonedTimeToUtc({ ...parts, day, hour, minute, month }, state.timeZone);
+        }
+        this.emit(previous, previousDate);
+    }
+
+    // Moves the simulation to the given instant and keeps the wall clock params in sync
+    setDate(date: number) {
+        const previous = { ...this.state };
+        const previousDate = this.instant;
+        this.instant = date;
+        const { day, hour, minute, month } = getZonedParts(date, this.state.timeZone);
+        Object.assign(this.state, { day, hour, minute, month });
+        this.emit(previous, previousDate);
+    }
+
+    private emit(previous: SunPathParams, previousDate: number) {
+        const keys = new Set(paramNames.filter((name) => !isSame(previous[name], this.state[name])));
+        const date = this.instant !== previousDate;
+        if (keys.size === 0 && !date) {
+            return;
+        }
+        const { timeZone } = this.state;
+        const change: StoreChange = {
+            date,
+            day: formatZonedDate(this.instant, timeZone) !== formatZonedDate(previousDate, previous.timeZone),
+            keys,
+            topics: new Set([...keys].map((name) => paramTopics[name])),
+            year: getZonedParts(this.instant, timeZone).year !== getZonedParts(previousDate, previous.timeZone).year,
+        };
+        for (const listener of this.listeners) {
+            listener(change);
+        }
+    }
+}
+
+export { paramTopics, SceneStore };
@@ -1,270 +1,850 @@
-import { CalculationParameters, Coordinates, Prayer, PrayerTimes } from 'adhan';
-import { getPosition } from 'suncalc';
+import { Madhab } from 'adhan';
+import { getTimes } from 'suncalc';
 import {
     BufferGeometry,
+    Color,
+    ConeGeometry,
+    CylinderGeometry,
     type DirectionalLight,
     DoubleSide,
+    EllipseCurve,
     Float32BufferAttribute,
     Group,
+    Line,
     LineBasicMaterial,
     LineDashedMaterial,
     LineLoop,
+    LineSegments,
     MathUtils,
     Mesh,
     MeshBasicMaterial,
+    MeshStandardMaterial,
     type Object3D,
+    type ShaderMaterial,
+    SphereGeometry,
+    type Sprite,
+    type SpriteMaterial,
 } from 'three';
+import { atBearing, createHorizonRing } from '../components/horizonRing';
+import { createLabel } from '../components/label';
+import { createMoonSphere } from '../components/moonSphere';
+import {
+    type AnalemmaTimeBasis,
+    getAnalemma,
+    getAnalemmaHours,
+    getAnalemmaTime,
+    getDayBounds,
+    getDayPath,
+    getPrayerTimes,
+    getSeasonalEvents,
+    getShadowOffset,
+    getSunEvents,
+    getSunPath,
+    getSunPosition,
+    getSunSurface,
+    type PathPoint,
+    type SeasonalEvent,
+    toBearing,
+    toCartesian,
+    toPositions,
+} from './engine';
+import { fromHijri, type HijriCalendar, type HijriDate, toHijri } from './hijri';
+import { getMoonDayPath, getMoonPosition, getMoonTimes } from './moon';
+import { prayerColors, prayerLabels } from './PrayerTimetable';
+import { type MadhabName, madhabOptions, type PrayerSettings, pickPrayerSettings, prayerNames } from './prayerSettings';
+import { getQiblaBearing } from './qibla';
+import type { ParamName, SceneStore, StoreChange } from './SceneStore';
+import { formatZonedDate, formatZonedTime, getZonedParts, monthLabels, pad, zonedTimeToUtc } from './timezone';
+import { findAltitudeCrossings, twilightDepressions } from './twilight';
 
-export interface SunPathParams {
+export interface SunPathParams extends PrayerSettings {
     hour: number;
     minute: number;
     day: number;
     month: number;
     latitude: number;
     longitude: number;
+    timeZone: string;
+    autoTimeZone: boolean;
     radius: number;
     showAnalemmas: boolean;
+    showAnalemmaLabels: boolean;
+    analemmaFirstHour: number;
+    analemmaLastHour: number;
+    analemmaHourStep: number;
+    analemmaTimeBasis: AnalemmaTimeBasis;
     showSunSurface: boolean;
     showSunDayPath: boolean;
+    showPrayerMarkers: boolean;
+    showTwilightCones: boolean;
+    showGnomon: boolean;
+    showSeasonalPaths: boolean;
+    showMonthlyPaths: boolean;
+    showMoon: boolean;
+    hijriCalendar: HijriCalendar;
+    hijriAdjustment: number;
+    showFastingChart: boolean;
+    showMoonDayPath: boolean;
+    showHorizonRing: boolean;
+    sunSurfaceDayStep: number;
+    sunSurfaceMinuteStep: number;
+    gnomonHeight: number;
     northOffset: number;
     animateTime: boolean;
     timeSpeed: number;
     shadowBias: number;
     baseY: number;
-    fajrAngle: number;
-    ishaAngle: number;
 }
 
+const twilightColor = '#7fb3d5';
+
+const moonColor = '#d5d8dc';
+
+const todayColor = 'gold';
+
+const asrRingColors: Record<MadhabName, string> = {
+    hanafi: '#af601a',
+    shafi: '#eb984e',
+};
+
+const asrShadowLengths: Record<MadhabName, number> = {
+    hanafi: 2,
+    shafi: 1,
+};
+
+const seasonalColors: Record<SeasonalEvent, string> = {
+    decemberSolstice: '#5dade2',
+    juneSolstice: '#f39c12',
+    marchEquinox: '#58d68d',
+    septemberEquinox: '#cd6155',
+};
+
+const seasonalLabels: Record<SeasonalEvent, string> = {
+    decemberSolstice: 'December solstice',
+    juneSolstice: 'June solstice',
+    marchEquinox: 'March equinox',
+    septemberEquinox: 'September equinox',
+};
+
+const analemmaBasisSuffixes: Record<AnalemmaTimeBasis, string> = {
+    clock: '',
+    meanSolar: ' LMT',
+    utc: ' UTC',
+};
+
+const analemmaParams: ParamName[] = [
+    'analemmaFirstHour',
+    'analemmaHourStep',
+    'analemmaLastHour',
+    'analemmaTimeBasis',
+    'showAnalemmaLabels',
+    'showAnalemmas',
+];
+
+const madhabLabels = Object.fromEntries(
+    Object.entries(madhabOptions).map(([label, madhab]) => [madhab, label]),
+) as Record<MadhabName, string>;
+
+function disposeObject(object: Object3D) {
+    object.traverse((child) => {
+        if ((child as Mesh).isMesh || (child as Line).isLine) {
+            (child as Mesh).geometry.dispose();
+        }
+        const material = (child as Mesh | Sprite).material;
+        if (material) {
+            for (const m of Array.isArray(material) ? material : [material]) {
+                (m as SpriteMaterial).map?.dispose();
+                m.dispose();
+            }
+        }
+    });
+}
+
+// Writes the positions into the geometry's existing buffer, when they fill it exactly
+function refillPositions(geometry: BufferGeometry, positions: number[]) {
+    const attribute = geometry.getAttribute('position') as Float32BufferAttribute;
+    if (attribute.array.length !== positions.length) {
+        return false;
+    }
+    attribute.copyArray(positions);
+    attribute.needsUpdate = true;
+    geometry.computeBoundingSphere();
+    return true;
+}
+
+// A drawing under the sun path and the inputs it was built from
+interface Layer {
+    inputs: string;
+    object: Object3D;
+}
+
+// Ticks across the horizon ring at each bearing (skipping the NaN of a sun that never rises or sets), labelled
+// with the given text or else with the name and bearing
+function createBearingMarkers(bearings: Record<string, number>, color: string, radius: number, label?: string) {
+    const markers = new Group();
+    const positions: number[] = [];
+    for (const [name, bearing] of Object.entries(bearings)) {
+        if (Number.isNaN(bearing)) {
+            continue;
+        }
+        positions.push(...atBearing(bearing, radius - 1, 0.04), ...atBearing(bearing, radius + 2.5, 0.04));
+        const sprite = label
+            ? createLabel(label, color, 0.7)
+            : createLabel(`${name} ${bearing.toFixed(1)}°`, color, 0.9);
+        sprite.position.fromArray(label ? atBearing(bearing, radius + 3.5, 0.5) : atBearing(bearing, radius + 5, 1.2));
+        markers.add(sprite);
+    }
+    const geometry = new BufferGeometry();
+    geometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
+    markers.add(new LineSegments(geometry, new LineBasicMaterial({ color })));
+    return markers;
+}
+
+// Draws the scene for the state of the store, redrawing what each change affects
 class SunPath {
-    params: SunPathParams;
-    date: number;
-    timeText: Element | null;
-    prayerText: Element | null;
+    store: SceneStore;
+    moonSphere: Mesh;
+    moonTimes: { moonrise: Date | null; moonset: Date | null };
     sunLight: DirectionalLight;
     sunPathLight: Group;
     sphereLight: Group;
+    horizonRing: Group;
+    layers: Map<string, Layer>;
 
-    constructor(params: SunPathParams, sunSphere: Mesh, sunLight: DirectionalLight, base: Object3D) {
-        this.params = params;
-        // this.date = new Date('2022-01-01T07:00:00').getTime() // Overwritten immediately
-        this.date = new Date().setHours(params.hour);
-        this.date = new Date(this.date).setMonth(params.month - 1);
-        this.timeText = document.querySelector('#time-display');
-        this.prayerText = document.querySelector('#prayer-display');
+    constructor(store: SceneStore, sunSphere: Mesh, sunLight: DirectionalLight, base: Object3D) {
+        this.store = store;
         this.sunLight = sunLight;
         this.sunPathLight = new Group();
         this.sphereLight = new Group();
         this.sphereLight.add(sunSphere, sunLight);
-        this.sunPathLight.add(this.sphereLight, base);
+        this.moonSphere = createMoonSphere();
+        this.moonTimes = { moonrise: null, moonset: null };
+        this.layers = new Map();
+        this.horizonRing = createHorizonRing(store.params.radius);
+        this.sunPathLight.add(this.sphereLight, base, this.moonSphere, this.horizonRing);
         this.drawSunDayPath();
+        this.drawDailyOverlays();
         this.drawSunSurface();
         this.drawAnalemmas();
+        this.drawYearlyPaths();
         this.updateSunPosition();
         this.updateNorth();
-        this.updatePrayerInfo();
+        this.updateQiblaArrow();
+        store.subscribe((change) => this.handleChange(change));
     }
 
-    updatePrayerInfo() {
-        if (!this.timeText || !this.prayerText) {
-            return;
-        }
-
-        const date = new Date(this.date);
-        const coordinates = new Coordinates(this.params.latitude, this.params.longitude);
-        const params = new CalculationParameters('Other', this.params.fajrAngle, this.params.ishaAngle);
-        const prayerTimes = new PrayerTimes(coordinates, date, params);
+    get params() {
+        return this.store.params;
+    }
 
-        const currentPrayer = prayerTimes.currentPrayer(date);
+    get date() {
+        return this.store.date;
+    }
 
-        let prayerName = '';
-        if (currentPrayer === Prayer.None) {
-            prayerName = 'Waiting for Fajr';
-        } else {
-            prayerName = currentPrayer;
+    updateQiblaArrow() {
+        const qiblaArrow = this.sunPathLight.getObjectByName('qiblaArrow');
+        if (qiblaArrow) {
+            qiblaArrow.rotation.y = -MathUtils.degToRad(getQiblaBearing(this.params.latitude, this.params.longitude));
         }
+    }
 
-        // Format time
-        const hours = date.getHours().toString().padStart(2, '0');
-        const minutes = date.getMinutes().toString().padStart(2, '0');
-        const day = date.getDate().toString().padStart(2, '0');
-        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    getPrayerTimes(date: number | Date, settings: PrayerSettings = this.params) {
+        return getPrayerTimes(date, this.params, settings);
+    }
 
-        this.timeText.textContent = `${hours}:${minutes} - ${day}/${month}`;
-        this.prayerText.textContent = `Current: ${prayerName}`;
+    getHijriDate(date: number | Date = this.date) {
+        return toHijri(
+            getZonedParts(date, this.params.timeZone),
+            this.params.hijriCalendar,
+            this.params.hijriAdjustment,
+        );
+    }
+
+    // Keeps the time of day; false when the date does not exist in the selected calendar, like a 30th of a 29 day month
+    goToHijriDate(hijri: HijriDate) {
+        const gregorian = fromHijri(hijri, this.params.hijriCalendar, this.params.hijriAdjustment);
+        if (!gregorian) {
+            return false;
+        }
+        const { hour, minute } = getZonedParts(this.date, this.params.timeZone);
+        this.setDate(zonedTimeToUtc({ ...gregorian, hour, minute }, this.params.timeZone));
+        return true;
     }
 
     getSunPosition(date: number | Date) {
-        const sunPosition = getPosition(new Date(date), this.params.latitude, this.params.longitude);
-        const x = this.params.radius * Math.cos(sunPosition.altitude) * Math.cos(sunPosition.azimuth);
-        const z = this.params.radius * Math.cos(sunPosition.altitude) * Math.sin(sunPosition.azimuth);
-        const y = this.params.radius * Math.sin(sunPosition.altitude);
-        return { x, y, z };
+        return getSunPosition(date, this.params, this.params.radius);
     }
 
-    drawAnalemmas() {
-        if (this.params.showAnalemmas) {
-            const analemmaPath = this.sunPathLight.getObjectByName('analemmaPath');
-            if (analemmaPath) {
-                this.sunPathLight.remove(analemmaPath);
-            }
-            const analemmas = new Group();
-            for (let h = 7; h < 18; h++) {
-                const vertices = [];
-                const from = new Date(2022, 0, 1);
-                const to = new Date(2023, 0, 1);
-                for (let d = from; d < to; d.setDate(d.getDate() + 1)) {
-                    const date = new Date(d).setHours(h);
-                    const sunPosition = this.getSunPosition(date);
-                    vertices.push(sunPosition.x, sunPosition.y, sunPosition.z);
-                }
-                const geometry = new BufferGeometry();
-                const analemmaMaterial = new LineDashedMaterial({
-                    color: 'yellow',
-                    dashSize: 6,
-                    gapSize: 3,
-                    linewidth: 1,
-                    opacity: 0.7,
-                    scale: 10,
-                    transparent: true,
-                });
-                geometry.setAttribute('position', new Float32BufferAttribute(vertices, 3));
-                const analemma = new LineLoop(geometry, analemmaMaterial);
-                analemma.computeLineDistances();
-                analemmas.add(analemma);
-                analemmas.name = 'analemmaPath';
+    // What most drawings are built from: the place, the size of the scene and the day or year on the local clock
+    getLayerInputs() {
+        const { latitude, longitude, radius, timeZone } = this.params;
+        const day = formatZonedDate(this.date, timeZone);
+        return { day, place: [latitude, longitude, radius, timeZone], year: day.slice(0, 4) };
+    }
+
+    // Shows or hides the named drawing, building it only when its inputs differ from the ones it was built from
+    // (or refilling its buffers in place when refill manages to); a hidden drawing is kept as it is, so toggling it
+    // costs nothing and the GPU resources of a replaced one are released
+    drawLayer(
+        name: string,
+        visible: boolean,
+        inputs: unknown[],
+        build: () => Object3D,
+        refill?: (object: Object3D) => boolean,
+    ) {
+        const key = JSON.stringify(inputs);
+        const layer = this.layers.get(name);
+        if (layer) {
+            layer.object.visible = visible;
+            if (!visible || layer.inputs === key) {
+                return;
             }
-            this.sunPathLight.add(analemmas);
-        } else {
-            const analemmaPath = this.sunPathLight.getObjectByName('analemmaPath');
-            if (analemmaPath) {
-                this.sunPathLight.remove(analemmaPath);
+            if (refill?.(layer.object)) {
+                layer.inputs = key;
+                return;
             }
+            this.sunPathLight.remove(layer.object);
+            disposeObject(layer.object);
+            this.layers.delete(name);
+        }
+        if (!visible) {
+            return;
         }
+        const object = build();
+        object.name = name;
+        this.sunPathLight.add(object);
+        this.layers.set(name, { inputs: key, object });
     }
 
-    drawSunSurface() {
-        if (this.params.showSunSurface) {
-            const sunSurface = this.sunPathLight.getObjectByName('sunSurface');
-            if (sunSurface) {
-                this.sunPathLight.remove(sunSurface);
-            }
-            const vertices = [];
-            for (let m = 0; m < 6; m++) {
-                let dateVal = new Date('2022-01-01T00:00:00').getTime();
-                for (let h = 0; h < 24; h++) {
-                    dateVal = new Date(dateVal).setMonth(m);
-                    dateVal = new Date(dateVal).setHours(h);
-                    const sunPosition = this.getSunPosition(dateVal);
-                    vertices.push(sunPosition.x, sunPosition.y, sunPosition.z);
-                    dateVal = new Date(dateVal).setHours(h + 1);
-                    const sunPosition2 = this.getSunPosition(dateVal);
-                    vertices.push(sunPosition2.x, sunPosition2.y, sunPosition2.z);
-                    dateVal = new Date(dateVal).setMonth(m + 1);
-                    dateVal = new Date(dateVal).setHours(h);
-                    const sunPosition3 = this.getSunPosition(dateVal);
-                    vertices.push(sunPosition3.x, sunPosition3.y, sunPosition3.z);
-                    vertices.push(sunPosition3.x, sunPosition3.y, sunPosition3.z);
-                    vertices.push(sunPosition2.x, sunPosition2.y, sunPosition2.z);
-                    dateVal = new Date(dateVal).setHours(h + 1);
-                    const sunPosition4 = this.getSunPosition(dateVal);
-                    vertices.push(sunPosition4.x, sunPosition4.y, sunPosition4.z);
-                }
-            }
-            const surfaceGeometry = new BufferGeometry();
-            const surfaceMaterial = new MeshBasicMaterial({
+    getAnalemmaInputs() {
+        const { analemmaFirstHour, analemmaHourStep, analemmaLastHour, analemmaTimeBasis } = this.params;
+        return [analemmaFirstHour, analemmaHourStep, analemmaLastHour, analemmaTimeBasis];
+    }
+
+    // One figure-eight per selected hour, read on the clock chosen by analemmaTimeBasis
+    drawAnalemmas() {
+        const { place } = this.getLayerInputs();
+        const inputs = [...place, ...this.getAnalemmaInputs(), this.params.showAnalemmaLabels];
+        this.drawLayer('analemmaPath', this.params.showAnalemmas, inputs, () => this.createAnalemmas());
+        this.drawAnalemmaMarkers();
+    }
+
+    createAnalemmas() {
+        const analemmas = new Group();
+        for (const hour of this.getAnalemmaHours()) {
+            const points = getAnalemma(hour, this.params, this.params.radius, this.params.analemmaTimeBasis);
+            const geometry = new BufferGeometry();
+            const analemmaMaterial = new LineDashedMaterial({
                 color: 'yellow',
-                opacity: 0.1,
-                side: DoubleSide,
+                dashSize: 6,
+                gapSize: 3,
+                linewidth: 1,
+                opacity: 0.7,
+                scale: 10,
                 transparent: true,
             });
-            surfaceGeometry.setAttribute('position', new Float32BufferAttribute(vertices, 3));
-            const surfaceMesh = new Mesh(surfaceGeometry, surfaceMaterial);
-            surfaceMesh.name = 'sunSurface';
-            this.sunPathLight.add(surfaceMesh);
-        } else {
-            const sunSurface = this.sunPathLight.getObjectByName('sunSurface');
-            if (sunSurface) {
-                this.sunPathLight.remove(sunSurface);
+            geometry.setAttribute('position', new Float32BufferAttribute(toPositions(points), 3));
+            const analemma = new LineLoop(geometry, analemmaMaterial);
+            analemma.computeLineDistances();
+            analemmas.add(analemma);
+            if (this.params.showAnalemmaLabels) {
+                const top = points.reduce((highest, point) => (point.y > highest.y ? point : highest));
+                const label = createLabel(this.formatAnalemmaHour(hour), 'yellow', 0.7);
+                label.position.set(top.x, top.y, top.z).multiplyScalar(1.06);
+                analemmas.add(label);
             }
         }
+        return analemmas;
     }
 
-    updateHour() {
-        this.date = new Date(this.date).setHours(this.params.hour);
-        this.date = new Date(this.date).setMinutes(this.params.minute);
-        this.updateSunPosition();
-        this.updatePrayerInfo();
+    // Today's point on each analemma, redrawn when the day changes
+    drawAnalemmaMarkers() {
+        const { day, place } = this.getLayerInputs();
+        const inputs = [...place, day, ...this.getAnalemmaInputs()];
+        this.drawLayer('analemmaMarkers', this.params.showAnalemmas, inputs, () => this.createAnalemmaMarkers());
     }
 
-    updateMonth() {
-        this.date = new Date(this.date).setHours(this.params.hour);
-        this.date = new Date(this.date).setDate(this.params.day);
-        this.date = new Date(this.date).setMonth(this.params.month - 1);
-        this.updateSunPosition();
-        this.drawSunDayPath();
-        this.updatePrayerInfo();
+    createAnalemmaMarkers() {
+        const markers = new Group();
+        const today = getZonedParts(this.date, this.params.timeZone);
+        for (const hour of this.getAnalemmaHours()) {
+            const time = getAnalemmaTime(today, hour, this.params, this.params.analemmaTimeBasis);
+            const sunPosition = this.getSunPosition(time);
+            const marker = new Mesh(new SphereGeometry(0.3), new MeshBasicMaterial({ color: 'orange' }));
+            marker.position.set(sunPosition.x, sunPosition.y, sunPosition.z);
+            markers.add(marker);
+        }
+        return markers;
     }
 
-    updateNorth() {
-        this.sunPathLight.rotation.y = MathUtils.degToRad(this.params.northOffset);
+    getAnalemmaHours() {
+        const { analemmaFirstHour, analemmaHourStep, analemmaLastHour } = this.params;
+        return getAnalemmaHours(analemmaFirstHour, analemmaLastHour, analemmaHourStep);
     }
 
-    updateLocation() {
-        this.drawSunDayPath();
-        this.drawSunSurface();
-        this.drawAnalemmas();
-        this.updateSunPosition();
-        this.updatePrayerInfo();
+    formatAnalemmaHour(hour: number) {
+        return `${pad(hour)}:00${analemmaBasisSuffixes[this.params.analemmaTimeBasis]}`;
+    }
+
+    // A new place keeps the number of vertices, so the surface is refilled in place unless the resolution changed
+    drawSunSurface() {
+        const resolution = {
+            dayStep: this.params.sunSurfaceDayStep,
+            minuteStep: this.params.sunSurfaceMinuteStep,
+        };
+        let vertices: number[] | undefined;
+        const getVertices = () => {
+            vertices ??= toPositions(getSunSurface(this.params, this.params.radius, resolution));
+            return vertices;
+        };
+        this.drawLayer(
+            'sunSurface',
+            this.params.showSunSurface,
+            [...this.getLayerInputs().place, resolution],
+            () => {
+                const surfaceGeometry = new BufferGeometry();
+                const surfaceMaterial = new MeshBasicMaterial({
+                    color: 'yellow',
+                    opacity: 0.1,
+                    side: DoubleSide,
+                    transparent: true,
+                });
+                surfaceGeometry.setAttribute('position', new Float32BufferAttribute(getVertices(), 3));
+                return new Mesh(surfaceGeometry, surfaceMaterial);
+            },
+            (surface) => refillPositions((surface as Mesh).geometry, getVertices()),
+        );
+    }
+
+    updateNorth() {
+        this.sunPathLight.rotation.y = MathUtils.degToRad(this.params.northOffset);
     }
 
     updateSunPosition() {
         const sunPosition = this.getSunPosition(this.date);
         this.sphereLight.position.set(sunPosition.x, sunPosition.y, sunPosition.z);
         this.sunLight.lookAt(0, 0, 0);
+        this.updateGnomonShadow();
+        this.updateMoonPosition();
     }
 
-    drawSunDayPath() {
-        if (this.params.showSunDayPath) {
-            const dayPath = this.sunPathLight.getObjectByName('dayPath');
-            if (dayPath) {
-                this.sunPathLight.remove(dayPath);
+    updateMoonPosition() {
+        const moonPosition = getMoonPosition(this.date, this.params, this.params.radius);
+        this.moonSphere.position.set(moonPosition.x, moonPosition.y, moonPosition.z);
+        this.moonSphere.visible = this.params.showMoon;
+        const { uniforms } = this.moonSphere.material as ShaderMaterial;
+        uniforms.sunDirection.value.copy(this.sphereLight.position).normalize();
+    }
+
+    updateMoonTimes() {
+        this.moonTimes = getMoonTimes(this.date, this.params);
+    }
+
+    drawMoonDayPath() {
+        const { day, place } = this.getLayerInputs();
+        this.drawLayer('moonDayPath', this.params.showMoonDayPath, [...place, day], () => this.createMoonDayPath());
+    }
+
+    createMoonDayPath() {
+        const path = new Group();
+        const geometry = new BufferGeometry();
+        geometry.setAttribute(
+            'position',
+            new Float32BufferAttribute(toPositions(getMoonDayPath(this.date, this.params, this.params.radius)), 3),
+        );
+        const line = new Line(geometry, new LineDashedMaterial({ color: moonColor, dashSize: 0.5, gapSize: 0.3 }));
+        line.computeLineDistances();
+        path.add(line);
+        for (const [name, time] of Object.entries(this.moonTimes)) {
+            if (time) {
+                const { x, y, z } = getMoonPosition(time, this.params, this.params.radius);
+                const text = `${name === 'moonrise' ? 'Moonrise' : 'Moonset'} ${formatZonedTime(time, this.params.timeZone)}`;
+                const label = createLabel(text, moonColor, 0.8);
+                label.position.set(x, y + 0.8, z);
+                path.add(label);
             }
+        }
+        return path;
+    }
+
+    drawSunDayPath() {
+        const { day, place } = this.getLayerInputs();
+        const inputs = [...place, day, pickPrayerSettings(this.params)];
+        this.drawLayer('dayPath', this.params.showSunDayPath, inputs, () => this.createSunDayPath());
+    }
+
+    createSunDayPath() {
+        const { end: dayEnd, start: dayStart } = getDayBounds(this.date, this.params.timeZone);
+        const prayerTimes = this.getPrayerTimes(this.date);
+        // each segment of the path starts at a prayer time and takes that prayer's colour
+        const boundaries = prayerNames
+            .map((prayer) => ({ color: prayerColors[prayer], time: prayerTimes[prayer].getTime() }))
+            .filter(({ time }) => time > dayStart && time < dayEnd)
+            .sort((a, b) => a.time - b.time);
+        const stops = [{ color: prayerColors.isha, time: dayStart }, ...boundaries, { color: '', time: dayEnd }];
+        const path = new Group();
+        for (let i = 0; i < stops.length - 1; i++) {
+            const positions = toPositions(
+                getSunPath(stops[i].time, stops[i + 1].time, this.params, this.params.radius),
+            );
+            const geometry = new BufferGeometry();
+            geometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
             const pathMaterial = new LineBasicMaterial({
-                color: 'red',
+                color: stops[i].color,
                 linewidth: 5,
-                opacity: 0.5,
+                opacity: 0.8,
                 transparent: true,
             });
+            path.add(new Line(geometry, pathMaterial));
+        }
+        return path;
+    }
+
+    // Dashed day paths of this year's solstices and equinoxes, labelled at their highest point
+    drawSeasonalPaths() {
+        const { place, year } = this.getLayerInputs();
+        this.drawLayer('seasonalPaths', this.params.showSeasonalPaths, [...place, year], () =>
+            this.createSeasonalPaths(),
+        );
+    }
+
+    createSeasonalPaths() {
+        const paths = new Group();
+        const { year } = getZonedParts(this.date, this.params.timeZone);
+        for (const [event, date] of Object.entries(getSeasonalEvents(year)) as [SeasonalEvent, Date][]) {
+            const color = seasonalColors[event];
+            const points = getDayPath(date, this.params, this.params.radius);
             const geometry = new BufferGeometry();
-            const positions = [];
-            for (let h = 0; h < 24; h++) {
-                const date = new Date(this.date).setHours(h);
-                const sunPosition = this.getSunPosition(date);
-                positions.push(sunPosition.x, sunPosition.y, sunPosition.z);
+            geometry.setAttribute('position', new Float32BufferAttribute(toPositions(points), 3));
+            const path = new Line(geometry, new LineDashedMaterial({ color, dashSize: 0.6, gapSize: 0.4 }));
+            path.computeLineDistances();
+            const top = points.reduce((highest, point) => (point.y > highest.y ? point : highest));
+            const day = formatZonedDate(date, this.params.timeZone).slice(5);
+            const label = createLabel(`${seasonalLabels[event]} ${day}`, color, 0.8);
+            label.position.set(top.x, top.y, top.z).multiplyScalar(1.08);
+            paths.add(path, label);
+        }
+        return paths;
+    }
+
+    // Day paths of the 21st of every month, coloured around the colour wheel; the rising half of the year is
+    // labelled at sunrise and the setting half at sunset, where their nearly coincident paths can be told apart
+    drawMonthlyPaths() {
+        const { place, year } = this.getLayerInputs();
+        this.drawLayer('monthlyPaths', this.params.showMonthlyPaths, [...place, year], () => this.createMonthlyPaths());
+    }
+
+    createMonthlyPaths() {
+        const paths = new Group();
+        const { year } = getZonedParts(this.date, this.params.timeZone);
+        for (let month = 1; month <= 12; month++) {
+            const color = new Color().setHSL((month - 1) / 12, 0.75, 0.55);
+            const date = zonedTimeToUtc({ day: 21, hour: 12, month, year }, this.params.timeZone);
+            const points = getDayPath(date, this.params, this.params.radius);
+            const geometry = new BufferGeometry();
+            geometry.setAttribute('position', new Float32BufferAttribute(toPositions(points), 3));
+            paths.add(new Line(geometry, new LineBasicMaterial({ color, opacity: 0.7, transparent: true })));
+
+            const daylight = points.filter((point) => point.y > 0);
+            const anchor: PathPoint | undefined = month <= 6 ? daylight[0] : daylight[daylight.length - 1];
+            if (anchor) {
+                const label = createLabel(monthLabels[month - 1], `#${color.getHexString()}`, 0.7);
+                label.position.set(anchor.x, anchor.y + 0.6, anchor.z);
+                paths.add(label);
             }
-            geometry.setAttribute('position', new Float32BufferAttribute(positions, 3));
-            const path = new LineLoop(geometry, pathMaterial);
-            path.name = 'dayPath';
-            this.sunPathLight.add(path);
-        } else {
-            const dayPath = this.sunPathLight.getObjectByName('dayPath');
-            if (dayPath) {
-                this.sunPathLight.remove(dayPath);
+        }
+        return paths;
+    }
+
+    drawYearlyPaths() {
+        this.drawSeasonalPaths();
+        this.drawMonthlyPaths();
+    }
+
+    drawPrayerMarkers() {
+        const { day, place } = this.getLayerInputs();
+        const inputs = [...place, day, pickPrayerSettings(this.params)];
+        this.drawLayer('prayerMarkers', this.params.showPrayerMarkers, inputs, () => this.createPrayerMarkers());
+    }
+
+    createPrayerMarkers() {
+        const markers = new Group();
+        const prayerTimes = this.getPrayerTimes(this.date);
+        for (const prayer of prayerNames) {
+            const time = prayerTimes[prayer];
+            if (Number.isNaN(time.getTime())) {
+                continue;
             }
+            const sunPosition = this.getSunPosition(time);
+            const marker = new Mesh(new SphereGeometry(0.35), new MeshBasicMaterial({ color: prayerColors[prayer] }));
+            marker.position.set(sunPosition.x, sunPosition.y, sunPosition.z);
+            const label = createLabel(
+                `${prayerLabels[prayer]} ${formatZonedTime(time, this.params.timeZone)}`,
+                prayerColors[prayer],
+            );
+            label.position.copy(marker.position).multiplyScalar(1.12);
+            markers.add(marker, label);
         }
+        return markers;
+    }
+
+    drawTwilightCones() {
+        const { day, place } = this.getLayerInputs();
+        const { fajrAngle, ishaAngle, ishaInterval } = this.params;
+        const inputs = [...place, day, fajrAngle, ishaAngle, ishaInterval];
+        this.drawLayer('twilightCones', this.params.showTwilightCones, inputs, () => this.createTwilightCones());
+    }
+
+    createTwilightCones() {
+        const { end: dayEnd, start: dayStart } = getDayBounds(this.date, this.params.timeZone);
+        // the Fajr cone only matters before sunrise and the Isha cone after sunset
+        const depressions = [
+            { angle: this.params.fajrAngle, color: prayerColors.fajr, name: prayerLabels.fajr, rising: true },
+            { angle: twilightDepressions.civil, color: twilightColor, name: 'Civil' },
+            { angle: twilightDepressions.nautical, color: twilightColor, name: 'Nautical' },
+            { angle: twilightDepressions.astronomical, color: twilightColor, name: 'Astronomical' },
+        ];
+        if (this.params.ishaInterval === 0) {
+            depressions.push({
+                angle: this.params.ishaAngle,
+                color: prayerColors.isha,
+                name: prayerLabels.isha,
+                rising: false,
+            });
+        }
+
+        const cones = new Group();
+        for (const { angle, color, name, rising } of depressions) {
+            const altitude = MathUtils.degToRad(angle);
+            const height = this.params.radius * Math.sin(altitude);
+            const ringRadius = this.params.radius * Math.cos(altitude);
+            const cone = new Mesh(
+                new ConeGeometry(ringRadius, height, 96, 1, true),
+                new MeshBasicMaterial({ color, depthWrite: false, opacity: 0.06, side: DoubleSide, transparent: true }),
+            );
+            cone.position.y = -height / 2;
+            const ringPoints = new EllipseCurve(0, 0, ringRadius, ringRadius).getPoints(96);
+            const ring = new LineLoop(
+                new BufferGeometry().setFromPoints(ringPoints).rotateX(Math.PI / 2),
+                new LineBasicMaterial({ color, opacity: 0.6, transparent: true }),
+            );
+            ring.position.y = -height;
+            cones.add(cone, ring);
+
+            const crossings = findAltitudeCrossings(
+                dayStart,
+                dayEnd,
+                this.params.latitude,
+                this.params.longitude,
+                -angle,
+            ).filter((crossing) => rising === undefined || crossing.rising === rising);
+            for (const crossing of crossings) {
+                const sunPosition = this.getSunPosition(crossing.date);
+                const point = new Mesh(new SphereGeometry(0.3), new MeshBasicMaterial({ color }));
+                point.position.set(sunPosition.x, sunPosition.y, sunPosition.z);
+                const label = createLabel(
+                    `${name} -${angle}° ${formatZonedTime(crossing.date, this.params.timeZone)}`,
+                    color,
+                    0.8,
+                );
+                label.position.copy(point.position).multiplyScalar(1.1);
+                label.position.y -= 0.8;
+                cones.add(point, label);
+            }
+        }
+        return cones;
+    }
+
+    getShadowOffset(date: number | Date) {
+        return getShadowOffset(date, this.params, this.params.gnomonHeight);
+    }
+
+    drawGnomon() {
+        const { day, place } = this.getLayerInputs();
+        const { baseY, gnomonHeight } = this.params;
+        const inputs = [...place, day, baseY, gnomonHeight, pickPrayerSettings(this.params)];
+        this.drawLayer('gnomon', this.params.showGnomon, inputs, () => this.createGnomon());
+        this.updateGnomonShadow();
+    }
+
+    createGnomon() {
+        const height = this.params.gnomonHeight;
+        const group = new Group();
+        group.position.set(0, this.params.baseY + 1.01, -this.params.radius * 0.55);
+        const stick = new Mesh(
+            new CylinderGeometry(0.06, 0.06, height, 12),
+            new MeshStandardMaterial({ color: 'white' }),
+        );
+        stick.position.y = height / 2;
+        stick.castShadow = true;
+        const shadowGeometry = new BufferGeometry();
+        shadowGeometry.setAttribute('position', new Float32BufferAttribute([0, 0, 0, 0, 0, 0], 3));
+        const shadow = new Line(shadowGeometry, new LineBasicMaterial({ color: 'orangered' }));
+        shadow.name = 'gnomonShadow';
+        const tip = new Mesh(new SphereGeometry(0.15), new MeshBasicMaterial({ color: 'orangered' }));
+        tip.name = 'gnomonTip';
+        group.add(stick, shadow, tip);
+
+        // Asr begins once the shadow grows past its noon length by one (Shafi) or two (Hanafi) gnomon heights
+        const middleOfDay = new Date(getDayBounds(this.date, this.params.timeZone).start + 12 * 60 * 60 * 1000);
+        const { solarNoon } = getTimes(middleOfDay, this.params.latitude, this.params.longitude);
+        const noonOffset = this.getShadowOffset(solarNoon);
+        group.userData.solarNoon = solarNoon.getTime();
+        if (noonOffset) {
+            const noonLength = Math.hypot(noonOffset.x, noonOffset.z);
+            for (const madhab of [Madhab.Shafi, Madhab.Hanafi]) {
+                const radius = noonLength + asrShadowLengths[madhab] * height;
+                const color = asrRingColors[madhab];
+                const ring = new LineLoop(
+                    new BufferGeometry().setFromPoints(new EllipseCurve(0, 0, radius, radius).getPoints(96)),
+                    new LineBasicMaterial({ color }),
+                );
+                ring.rotation.x = Math.PI / 2;
+                ring.name = 'asrRing';
+                ring.userData = { color, radius };
+                group.add(ring);
+
+                const asr = this.getPrayerTimes(this.date, { ...this.params, madhab }).asr;
+                const asrOffset = this.getShadowOffset(asr);
+                if (asrOffset) {
+                    const marker = new Mesh(new SphereGeometry(0.12), new MeshBasicMaterial({ color }));
+                    marker.position.set(asrOffset.x, 0, asrOffset.z);
+                    const label = createLabel(
+                        `${prayerLabels.asr} (${madhabLabels[madhab]}) ${formatZonedTime(asr, this.params.timeZone)}`,
+                        color,
+                        0.6,
+                    );
+                    label.position.set(asrOffset.x, 0.6, asrOffset.z);
+                    group.add(marker, label);
+                }
+            }
+        }
+        return group;
+    }
+
+    updateGnomonShadow() {
+        const gnomon = this.layers.get('gnomon')?.object;
+        if (!gnomon?.visible) {
+            return;
+        }
+
+        const offset = this.getShadowOffset(this.date);
+        const shadow = gnomon.getObjectByName('gnomonShadow') as Line;
+        const tip = gnomon.getObjectByName('gnomonTip')!;
+        shadow.visible = tip.visible = offset !== null;
+        if (!offset) {
+            return;
+        }
+        shadow.geometry.attributes.position.setXYZ(1, offset.x, 0, offset.z);
+        shadow.geometry.attributes.position.needsUpdate = true;
+        tip.position.set(offset.x, 0, offset.z);
+
+        const length = Math.hypot(offset.x, offset.z);
+        const afterNoon = this.date > gnomon.userData.solarNoon;
+        for (const ring of gnomon.children) {
+            if (ring.name === 'asrRing') {
+                const reached = afterNoon && length >= ring.userData.radius;
+                ((ring as LineLoop).material as LineBasicMaterial).color.set(reached ? 'white' : ring.userData.color);
+            }
+        }
+    }
+
+    // Sunrise and sunset bearings of the day and of both solstices on the horizon ring, and the day's noon meridian
+    drawHorizonMarkers() {
+        const { day, place } = this.getLayerInputs();
+        this.horizonRing.visible = this.params.showHorizonRing;
+        this.drawLayer('horizonMarkers', this.params.showHorizonRing, [...place, day], () =>
+            this.createHorizonMarkers(),
+        );
+    }
+
+    createHorizonMarkers() {
+        const { radius, timeZone } = this.params;
+        const markers = new Group();
+        const { decemberSolstice, juneSolstice } = getSeasonalEvents(getZonedParts(this.date, timeZone).year);
+        const days: { color: string; date: Date; label?: string }[] = [
+            { color: seasonalColors.juneSolstice, date: juneSolstice, label: 'Jun' },
+            { color: seasonalColors.decemberSolstice, date: decemberSolstice, label: 'Dec' },
+            { color: todayColor, date: new Date(this.date) },
+        ];
+        for (const { color, date, label } of days) {
+            const { sunriseBearing, sunsetBearing } = getSunEvents(date, this.params);
+            markers.add(createBearingMarkers({ Sunrise: sunriseBearing, Sunset: sunsetBearing }, color, radius, label));
+        }
+
+        // the meridian runs through the sun's bearing at solar noon, across the ground and up to the sun itself
+        const { solarNoon } = getSunEvents(this.date, this.params);
+        const noon = this.getSunPosition(solarNoon);
+        const bearing = toBearing(noon.azimuth);
+        const arc = Array.from({ length: 31 }, (_, i) =>
+            toCartesian((Math.max(0, noon.altitude) * i) / 30, noon.azimuth, radius),
+        );
+        const meridianGeometry = new BufferGeometry();
+        meridianGeometry.setAttribute(
+            'position',
+            new Float32BufferAttribute([...atBearing(bearing + 180, radius), ...toPositions(arc)], 3),
+        );
+        const meridian = new Line(
+            meridianGeometry,
+            new LineDashedMaterial({ color: todayColor, dashSize: 0.6, gapSize: 0.4 }),
+        );
+        meridian.computeLineDistances();
+        markers.add(meridian);
+        const noonLabel = createLabel(`Solar noon ${formatZonedTime(solarNoon, timeZone)}`, todayColor, 0.9);
+        noonLabel.position.fromArray(atBearing(bearing, radius + 5, 2.6));
+        markers.add(noonLabel);
+        return markers;
+    }
+
+    drawDailyOverlays() {
+        this.drawHorizonMarkers();
+        this.drawAnalemmaMarkers();
+        this.drawPrayerMarkers();
+        this.drawTwilightCones();
+        this.drawGnomon();
+        this.updateMoonTimes();
+        this.drawMoonDayPath();
+    }
+
+    // Location changes redraw everything, day changes the overlays of the day, year changes the yearly paths;
+    // toggles and settings redraw only what they show
+    handleChange({ date, day, keys, topics, year }: StoreChange) {
+        const changed = (...names: ParamName[]) => names.some((name) => keys.has(name));
+        const place = changed('latitude', 'longitude', 'timeZone');
+        const daily = place || day || topics.has('prayer');
+        const redraws: [boolean, () => void][] = [
+            [changed('northOffset'), () => this.updateNorth()],
+            [changed('latitude', 'longitude'), () => this.updateQiblaArrow()],
+            [
+                place || changed('showSunSurface', 'sunSurfaceDayStep', 'sunSurfaceMinuteStep'),
+                () => this.drawSunSurface(),
+            ],
+            [place || changed(...analemmaParams), () => this.drawAnalemmas()],
+            [place || year || changed('showSeasonalPaths'), () => this.drawSeasonalPaths()],
+            [place || year || changed('showMonthlyPaths'), () => this.drawMonthlyPaths()],
+            [daily || changed('showSunDayPath'), () => this.drawSunDayPath()],
+            [daily, () => this.drawDailyOverlays()],
+            [!daily && changed('showHorizonRing'), () => this.drawHorizonMarkers()],
+            [!daily && changed('showPrayerMarkers'), () => this.drawPrayerMarkers()],
+            [!daily && changed('showTwilightCones'), () => this.drawTwilightCones()],
+            [!daily && changed('showGnomon', 'gnomonHeight'), () => this.drawGnomon()],
+            [!daily && changed('showMoonDayPath'), () => this.drawMoonDayPath()],
+            [place || date || changed('showMoon'), () => this.updateSunPosition()],
+        ];
+        for (const [needed, redraw] of redraws) {
+            if (needed) {
+                redraw();
+            }
+        }
+    }
+
+    setDate(date: number) {
+        this.store.setDate(date);
     }
 
     tick(delta: number) {
         if (this.params.animateTime) {
-            const time = new Date(this.date).getTime();
-            this.date = new Date(this.date).setTime(time + delta * 1000 * this.params.timeSpeed);
-            this.params.minute = new Date(this.date).getMinutes();
-            this.params.hour = new Date(this.date).getHours();
-            this.params.day = new Date(this.date).getDate();
-            this.params.month = new Date(this.date).getMonth();
-            this.updateSunPosition();
-            this.drawSunDayPath();
-            this.updatePrayerInfo();
+            this.store.setDate(this.date + delta * 1000 * this.params.timeSpeed);
         }
     }
 }
@@ -0,0 +1,280 @@
+import { getDayBounds } from './engine';
+import { prayerColors, prayerLabels } from './PrayerTimetable';
+import { prayerNames } from './prayerSettings';
+import type { StoreChange } from './SceneStore';
+import type { SunPath } from './SunPath';
+import {
+    addZonedDays,
+    formatZonedDate,
+    formatZonedTime,
+    getDaysInYear,
+    getZonedParts,
+    monthLabels,
+    pad,
+    zonedTimeToUtc,
+} from './timezone';
+
+interface Segment {
+    color: string;
+    end: number;
+    label: string;
+    start: number;
+}
+
+const nightColor = '#1b2440';
+
+const timeSpeeds = [1, 10, 60, 100, 300, 600, 1800, 3600, 10000];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const percent = (fraction: number) => `${(clamp(fraction) * 100).toFixed(3)}%`;
+
+function createElement<K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text = '') {
+    const element = document.createElement(tag);
+    element.className = className;
+    element.textContent = text;
+    return element;
+}
+
+// Calls onScrub with the horizontal fraction of the bar under the pointer while it is pressed
+function bindScrub(bar: HTMLElement, onScrub: (fraction: number) => void, onEnd: () => void) {
+    const scrub = (event: PointerEvent) => {
+        const { left, width } = bar.getBoundingClientRect();
+        onScrub(clamp((event.clientX - left) / width));
+    };
+    bar.addEventListener('pointerdown', (event) => {
+        bar.setPointerCapture(event.pointerId);
+        scrub(event);
+    });
+    bar.addEventListener('pointermove', (event) => {
+        if (bar.hasPointerCapture(event.pointerId)) {
+            scrub(event);
+        }
+    });
+    bar.addEventListener('pointerup', onEnd);
+    bar.addEventListener('pointercancel', onEnd);
+}
+
+// Bottom bar with the prayer periods of the simulated day, a draggable playhead, playback buttons and a year strip
+class Timeline {
+    sunPath: SunPath;
+    playButton: HTMLButtonElement;
+    speedText: HTMLElement;
+    dateText: HTMLElement;
+    segments: HTMLElement;
+    ticks: HTMLElement;
+    dayPlayhead: HTMLElement;
+    months: HTMLElement;
+    yearPlayhead: HTMLElement;
+    // the simulated day on the location's clock, with its start and end instants
+    day: { dayOfYear: number; end: number; start: number; year: number };
+    resumeAfterScrub: boolean;
+
+    constructor(element: Element, sunPath: SunPath) {
+        this.sunPath = sunPath;
+        this.day = { dayOfYear: 0, end: 0, start: 0, year: 0 };
+        this.resumeAfterScrub = false;
+
+        const controls = createElement('div', 'timeline-controls');
+        const button = (text: string, title: string, onClick: () => void) => {
+            const element = createElement('button', '', text);
+            element.type = 'button';
+            element.title = title;
+            element.addEventListener('click', onClick);
+            return element;
+        };
+        this.playButton = button('', 'Play or pause', () => {
+            sunPath.store.set({ animateTime: !sunPath.params.animateTime });
+        });
+        this.speedText = createElement('span', 'timeline-speed');
+        this.dateText = createElement('span', 'timeline-date');
+        controls.append(
+            button('⏮', 'Previous prayer', () => this.stepPrayer(-1)),
+            this.playButton,
+            button('⏭', 'Next prayer', () => this.stepPrayer(1)),
+            button('−', 'Slower', () => this.changeSpeed(-1)),
+            this.speedText,
+            button('+', 'Faster', () => this.changeSpeed(1)),
+            this.dateText,
+        );
+
+        const day = createElement('div', 'timeline-day');
+        this.segments = createElement('div', 'timeline-segments');
+        this.ticks = createElement('div', 'timeline-ticks');
+        this.dayPlayhead = createElement('div', 'timeline-playhead');
+        day.append(this.segments, this.ticks, this.dayPlayhead);
+        bindScrub(
+            day,
+            (fraction) => this.scrubDay(fraction),
+            () => this.endScrub(),
+        );
+
+        const year = createElement('div', 'timeline-year');
+        this.months = createElement('div', 'timeline-months');
+        this.yearPlayhead = createElement('div', 'timeline-playhead');
+        year.append(this.months, this.yearPlayhead);
+        bindScrub(
+            year,
+            (fraction) => this.scrubYear(fraction),
+            () => this.endScrub(),
+        );
+
+        element.append(controls, day, year);
+        this.updateControls();
+        this.renderDay();
+        this.renderYear();
+        this.updatePlayheads();
+        sunPath.store.subscribe((change) => this.handleChange(change));
+    }
+
+    // The bars are rebuilt when the day, place or prayer settings change, only the playheads follow the time
+    handleChange({ date, day, keys, topics, year }: StoreChange) {
+        const place = topics.has('location');
+        if (keys.has('animateTime') || keys.has('timeSpeed')) {
+            this.updateControls();
+        }
+        if (day || place || topics.has('prayer')) {
+            this.renderDay();
+        }
+        if (year || place) {
+            this.renderYear();
+        }
+        if (date || day || place) {
+            this.updatePlayheads();
+        }
+    }
+
+    get timeZone() {
+        return this.sunPath.params.timeZone;
+    }
+
+    // Prayer periods from midnight to midnight; prayers that do not occur (high latitudes) merge into their neighbours
+    getSegments(start: number, end: number): Segment[] {
+        const prayerTimes = this.sunPath.getPrayerTimes(start);
+        const boundaries = prayerNames
+            .map((prayer) => ({ prayer, time: prayerTimes[prayer].getTime() }))
+            .filter(({ time }) => time > start && time < end);
+        const segments: Segment[] = [];
+        let previous = { color: nightColor, label: 'Night', time: start };
+        for (const { prayer, time } of [...boundaries, { prayer: undefined, time: end }]) {
+            if (time > previous.time) {
+                segments.push({ color: previous.color, end: time, label: previous.label, start: previous.time });
+            }
+            if (prayer) {
+                previous = { color: prayerColors[prayer], label: prayerLabels[prayer], time };
+            }
+        }
+        return segments;
+    }
+
+    renderDay() {
+        const { date } = this.sunPath;
+        const { end, start } = getDayBounds(date, this.timeZone);
+        const { day, month, year } = getZonedParts(date, this.timeZone);
+        const dayOfYear = (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / DAY;
+        this.day = { dayOfYear, end, start, year };
+        this.dateText.textContent = formatZonedDate(date, this.timeZone);
+
+        const fraction = (time: number) => (time - start) / (end - start);
+        this.segments.replaceChildren(
+            ...this.getSegments(start, end).map(({ color, end: segmentEnd, label, start: segmentStart }) => {
+                const segment = createElement('div', 'timeline-segment', label);
+                segment.style.left = percent(fraction(segmentStart));
+                segment.style.width = percent(fraction(segmentEnd) - fraction(segmentStart));
+                segment.style.backgroundColor = color;
+                segment.title = `${label} ${formatZonedTime(segmentStart, this.timeZone)}–${formatZonedTime(segmentEnd, this.timeZone)}`;
+                return segment;
+            }),
+        );
+        const parts = getZonedParts(start, this.timeZone);
+        const ticks: HTMLElement[] = [];
+        for (let hour = 3; hour < 24; hour += 3) {
+            const tick = createElement('span', 'timeline-tick', pad(hour));
+            tick.style.left = percent(fraction(zonedTimeToUtc({ ...parts, hour, minute: 0 }, this.timeZone)));
+            ticks.push(tick);
+        }
+        this.ticks.replaceChildren(...ticks);
+    }
+
+    // Months sized by their number of days, so February shrinks and grows with leap years
+    renderYear() {
+        const { year } = getZonedParts(this.sunPath.date, this.timeZone);
+        this.months.replaceChildren(
+            ...monthLabels.map((label, i) => {
+                const month = createElement('div', 'timeline-month', label);
+                month.style.flexGrow = String(daysInMonth(year, i + 1));
+                return month;
+            }),
+        );
+    }
+
+    updateControls() {
+        const { animateTime, timeSpeed } = this.sunPath.params;
+        this.playButton.textContent = animateTime ? '⏸' : '▶';
+        this.speedText.textContent = `×${timeSpeed}`;
+    }
+
+    updatePlayheads() {
+        const { dayOfYear, end, start, year } = this.day;
+        const dayFraction = (this.sunPath.date - start) / (end - start);
+        this.dayPlayhead.style.left = percent(dayFraction);
+        this.yearPlayhead.style.left = percent((dayOfYear + dayFraction) / getDaysInYear(year));
+    }
+
+    // Scrubbing pauses the animation so the playhead stays under the pointer
+    pauseForScrub() {
+        if (this.sunPath.params.animateTime) {
+            this.sunPath.store.set({ animateTime: false });
+            this.resumeAfterScrub = true;
+        }
+    }
+
+    endScrub() {
+        if (this.resumeAfterScrub) {
+            this.sunPath.store.set({ animateTime: true });
+            this.resumeAfterScrub = false;
+        }
+    }
+
+    scrubDay(fraction: number) {
+        this.pauseForScrub();
+        const { end, start } = getDayBounds(this.sunPath.date, this.timeZone);
+        this.sunPath.setDate(Math.round(start + fraction * (end - start)));
+    }
+
+    // Keeps the time of day and picks the day of the year under the pointer
+    scrubYear(fraction: number) {
+        this.pauseForScrub();
+        const { hour, minute, year } = getZonedParts(this.sunPath.date, this.timeZone);
+        const day = Math.min(Math.floor(fraction * getDaysInYear(year)), getDaysInYear(year) - 1) + 1;
+        this.sunPath.setDate(zonedTimeToUtc({ day, hour, minute, month: 1, year }, this.timeZone));
+    }
+
+    // Jumps to the closest prayer before or after the current time, crossing into the neighbouring days
+    stepPrayer(direction: 1 | -1) {
+        const { date } = this.sunPath;
+        const times = [-1, 0, 1]
+            .map((offset) => this.sunPath.getPrayerTimes(addZonedDays(date, offset, this.timeZone)))
+            .flatMap((prayerTimes) => prayerNames.map((prayer) => prayerTimes[prayer].getTime()))
+            .filter((time) => !Number.isNaN(time) && (time - date) * direction > 1000)
+            .sort((a, b) => (a - b) * direction);
+        if (times.length > 0) {
+            this.sunPath.setDate(times[0]);
+        }
+    }
+
+    changeSpeed(direction: 1 | -1) {
+        const { params } = this.sunPath;
+        const next =
+            direction > 0
+                ? timeSpeeds.find((speed) => speed > params.timeSpeed)
+                : timeSpeeds.findLast((speed) => speed < params.timeSpeed);
+        this.sunPath.store.set({ timeSpeed: next ?? params.timeSpeed });
+    }
+}
+
+export { Timeline };
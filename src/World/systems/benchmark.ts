@@ -0,0 +1,113 @@
+import type { Loop } from './Loop';
+import type { SunPath } from './SunPath';
+
+export interface BenchmarkSettings {
+    frames: number;
+    // simulated days the animation runs through, spread evenly over the frames
+    days: number;
+}
+
+export interface BenchmarkSample {
+    frame: number;
+    // mean time to tick and render one frame since the previous sample, on the main thread
+    frameTime: number;
+    geometries: number;
+    textures: number;
+    heap?: number;
+}
+
+const SAMPLES = 10;
+
+// Chrome only
+const getHeapSize = () => (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize;
+
+const formatHeap = (bytes?: number) => (bytes === undefined ? '?' : (bytes / 1024 / 1024).toFixed(1));
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve));
+
+// Plays a long time animation as fast as it renders, in fixed timestep mode, and samples the frame time and the
+// geometries, textures and heap in use along the way; flat numbers mean nothing is rebuilt or leaked per frame
+class FrameBenchmark {
+    loop: Loop;
+    sunPath: SunPath;
+    settings: BenchmarkSettings;
+    samples: BenchmarkSample[];
+    status: string;
+    controller?: AbortController;
+
+    constructor(loop: Loop, sunPath: SunPath) {
+        this.loop = loop;
+        this.sunPath = sunPath;
+        this.settings = { days: 30, frames: 3000 };
+        this.samples = [];
+        this.status = 'Not run';
+    }
+
+    async run() {
+        if (this.controller) {
+            return;
+        }
+        const controller = new AbortController();
+        this.controller = controller;
+        const { loop, sunPath } = this;
+        const { animateTime, timeSpeed } = sunPath.params;
+        const { date } = sunPath;
+        const { fixedTimestep } = loop;
+        const frames = Math.max(SAMPLES, Math.round(this.settings.frames));
+        const chunk = Math.ceil(frames / SAMPLES);
+        try {
+            loop.stop();
+            loop.fixedTimestep = true;
+            const seconds = frames / loop.frameRate;
+            sunPath.store.set({ animateTime: true, timeSpeed: (this.settings.days * 24 * 60 * 60) / seconds });
+            this.samples = [];
+
+            for (let frame = 0; frame < frames; frame += chunk) {
+                controller.signal.throwIfAborted();
+                const count = Math.min(chunk, frames - frame);
+                const start = performance.now();
+                for (let i = 0; i < count; i++) {
+                    loop.tick();
+                    loop.render();
+                }
+                const { geometries, textures } = loop.renderer.info.memory;
+                this.samples.push({
+                    frame: frame + count,
+                    frameTime: (performance.now() - start) / count,
+                    geometries,
+                    heap: getHeapSize(),
+                    textures,
+                });
+                this.status = `Frame ${frame + count} of ${frames}`;
+                await nextTask();
+            }
+            this.status = this.summarize();
+            console.table(this.samples);
+        } catch (error) {
+            this.status = controller.signal.aborted ? 'Cancelled' : (error as Error).message;
+        } finally {
+            this.controller = undefined;
+            loop.fixedTimestep = fixedTimestep;
+            sunPath.store.set({ animateTime, timeSpeed });
+            sunPath.setDate(date);
+            loop.start();
+        }
+    }
+
+    cancel() {
+        this.controller?.abort();
+    }
+
+    // The first sample includes the warm-up, so the run is judged from the second one on
+    summarize() {
+        const [first, last] = [this.samples[1], this.samples[this.samples.length - 1]];
+        return [
+            `${first.frameTime.toFixed(2)} → ${last.frameTime.toFixed(2)} ms/frame`,
+            `geometries ${first.geometries} → ${last.geometries}`,
+            `textures ${first.textures} → ${last.textures}`,
+            `heap ${formatHeap(first.heap)} → ${formatHeap(last.heap)} MB`,
+        ].join(', ');
+    }
+}
+
+export { FrameBenchmark };
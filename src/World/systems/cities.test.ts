@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'bun:test';
+import { cities, getTimeZoneOptions, inferTimeZone } from './cities';
+
+describe('cities', () => {
+    describe('inferTimeZone', () => {
+        it('should give the zone of the nearest city', () => {
+            expect(inferTimeZone(21.5, 39.9)).toBe('Asia/Riyadh');
+            expect(inferTimeZone(51.4, -0.2)).toBe('Europe/London');
+        });
+
+        it('should give the nautical zone of the longitude far from every city', () => {
+            expect(inferTimeZone(-60, -150)).toBe('Etc/GMT+10');
+            expect(inferTimeZone(-70, 5)).toBe('Etc/GMT');
+        });
+    });
+
+    describe('getTimeZoneOptions', () => {
+        const options = getTimeZoneOptions();
+
+        it('should list every zone a city or the inference can give, once', () => {
+            expect(new Set(options).size).toBe(options.length);
+            for (const { timeZone } of cities) {
+                expect(options).toContain(timeZone);
+            }
+            expect(options.filter((zone) => zone === 'UTC')).toHaveLength(1);
+            for (let longitude = -180; longitude <= 180; longitude += 15) {
+                expect(options).toContain(inferTimeZone(-70, longitude));
+            }
+        });
+
+        it('should list the fixed offset zones from UTC-12 to UTC+14', () => {
+            expect(options).toContain('Etc/GMT+12');
+            expect(options).toContain('Etc/GMT-14');
+            expect(options.filter((zone) => zone.startsWith('Etc/GMT'))).toHaveLength(27);
+        });
+
+        it('should add the given zones and sort the list', () => {
+            const withExtra = getTimeZoneOptions('Asia/Calcutta', 'UTC');
+            expect(withExtra).toContain('Asia/Calcutta');
+            expect(withExtra).toHaveLength(options.length + 1);
+            expect(withExtra).toEqual([...withExtra].sort());
+        });
+    });
+});
@@ -0,0 +1,218 @@
+import { degToRad } from './engine';
+
+export interface City {
+    country: string;
+    elevation: number;
+    latitude: number;
+    longitude: number;
+    name: string;
+    timeZone: string;
+}
+
+// Offline table of major cities, used to infer the time zone of arbitrary coordinates:
+// name, country, latitude, longitude, elevation (m), IANA time zone
+const cityTable: [string, string, number, number, number, string][] = [
+    ['Dubai', 'AE', 25.2048, 55.2708, 5, 'Asia/Dubai'],
+    ['Abu Dhabi', 'AE', 24.4539, 54.3773, 27, 'Asia/Dubai'],
+    ['Kabul', 'AF', 34.5553, 69.2075, 1791, 'Asia/Kabul'],
+    ['Buenos Aires', 'AR', -34.6037, -58.3816, 25, 'America/Argentina/Buenos_Aires'],
+    ['Vienna', 'AT', 48.2082, 16.3738, 190, 'Europe/Vienna'],
+    ['Sydney', 'AU', -33.8688, 151.2093, 58, 'Australia/Sydney'],
+    ['Melbourne', 'AU', -37.8136, 144.9631, 31, 'Australia/Melbourne'],
+    ['Perth', 'AU', -31.9505, 115.8605, 31, 'Australia/Perth'],
+    ['Brisbane', 'AU', -27.4698, 153.0251, 27, 'Australia/Brisbane'],
+    ['Adelaide', 'AU', -34.9285, 138.6007, 50, 'Australia/Adelaide'],
+    ['Darwin', 'AU', -12.4634, 130.8456, 30, 'Australia/Darwin'],
+    ['Baku', 'AZ', 40.4093, 49.8671, -28, 'Asia/Baku'],
+    ['Sarajevo', 'BA', 43.8563, 18.4131, 518, 'Europe/Sarajevo'],
+    ['Dhaka', 'BD', 23.8103, 90.4125, 4, 'Asia/Dhaka'],
+    ['Brussels', 'BE', 50.8503, 4.3517, 13, 'Europe/Brussels'],
+    ['Manama', 'BH', 26.2285, 50.586, 5, 'Asia/Bahrain'],
+    ['Bandar Seri Begawan', 'BN', 4.9031, 114.9398, 10, 'Asia/Brunei'],
+    ['São Paulo', 'BR', -23.5505, -46.6333, 760, 'America/Sao_Paulo'],
+    ['Rio de Janeiro', 'BR', -22.9068, -43.1729, 5, 'America/Sao_Paulo'],
+    ['Brasília', 'BR', -15.7939, -47.8828, 1172, 'America/Sao_Paulo'],
+    ['Manaus', 'BR', -3.119, -60.0217, 92, 'America/Manaus'],
+    ['Fortaleza', 'BR', -3.7319, -38.5267, 21, 'America/Fortaleza'],
+    ['Porto Alegre', 'BR', -30.0346, -51.2177, 10, 'America/Sao_Paulo'],
+    ['Toronto', 'CA', 43.6532, -79.3832, 76, 'America/Toronto'],
+    ['Montreal', 'CA', 45.5017, -73.5673, 36, 'America/Toronto'],
+    ['Vancouver', 'CA', 49.2827, -123.1207, 70, 'America/Vancouver'],
+    ['Calgary', 'CA', 51.0447, -114.0719, 1045, 'America/Edmonton'],
+    ['Winnipeg', 'CA', 49.8951, -97.1384, 239, 'America/Winnipeg'],
+    ['Halifax', 'CA', 44.6488, -63.5752, 145, 'America/Halifax'],
+    ['Zurich', 'CH', 47.3769, 8.5417, 408, 'Europe/Zurich'],
+    ['Santiago', 'CL', -33.4489, -70.6693, 570, 'America/Santiago'],
+    ['Beijing', 'CN', 39.9042, 116.4074, 44, 'Asia/Shanghai'],
+    ['Shanghai', 'CN', 31.2304, 121.4737, 4, 'Asia/Shanghai'],
+    ['Ürümqi', 'CN', 43.8256, 87.6168, 800, 'Asia/Urumqi'],
+    ['Bogotá', 'CO', 4.711, -74.0721, 2640, 'America/Bogota'],
+    ['Berlin', 'DE', 52.52, 13.405, 34, 'Europe/Berlin'],
+    ['Munich', 'DE', 48.1351, 11.582, 520, 'Europe/Berlin'],
+    ['Djibouti', 'DJ', 11.5721, 43.1456, 14, 'Africa/Djibouti'],
+    ['Copenhagen', 'DK', 55.6761, 12.5683, 14, 'Europe/Copenhagen'],
+    ['Algiers', 'DZ', 36.7538, 3.0588, 25, 'Africa/Algiers'],
+    ['Cairo', 'EG', 30.0444, 31.2357, 23, 'Africa/Cairo'],
+    ['Alexandria', 'EG', 31.2001, 29.9187, 5, 'Africa/Cairo'],
+    ['Madrid', 'ES', 40.4168, -3.7038, 667, 'Europe/Madrid'],
+    ['Barcelona', 'ES', 41.3874, 2.1686, 12, 'Europe/Madrid'],
+    ['Addis Ababa', 'ET', 9.032, 38.7469, 2355, 'Africa/Addis_Ababa'],
+    ['Helsinki', 'FI', 60.1699, 24.9384, 17, 'Europe/Helsinki'],
+    ['Paris', 'FR', 48.8566, 2.3522, 35, 'Europe/Paris'],
+    ['Marseille', 'FR', 43.2965, 5.3698, 12, 'Europe/Paris'],
+    ['London', 'GB', 51.5074, -0.1278, 11, 'Europe/London'],
+    ['Birmingham', 'GB', 52.4862, -1.8904, 140, 'Europe/London'],
+    ['Manchester', 'GB', 53.4808, -2.2426, 38, 'Europe/London'],
+    ['Edinburgh', 'GB', 55.9533, -3.1883, 47, 'Europe/London'],
+    ['Accra', 'GH', 5.6037, -0.187, 61, 'Africa/Accra'],
+    ['Athens', 'GR', 37.9838, 23.7275, 70, 'Europe/Athens'],
+    ['Hong Kong', 'HK', 22.3193, 114.1694, 20, 'Asia/Hong_Kong'],
+    ['Jakarta', 'ID', -6.2088, 106.8456, 8, 'Asia/Jakarta'],
+    ['Surabaya', 'ID', -7.2575, 112.7521, 5, 'Asia/Jakarta'],
+    ['Medan', 'ID', 3.5952, 98.6722, 25, 'Asia/Jakarta'],
+    ['Makassar', 'ID', -5.1477, 119.4327, 8, 'Asia/Makassar'],
+    ['Jayapura', 'ID', -2.5337, 140.7181, 5, 'Asia/Jayapura'],
+    ['Dublin', 'IE', 53.3498, -6.2603, 20, 'Europe/Dublin'],
+    ['New Delhi', 'IN', 28.6139, 77.209, 216, 'Asia/Kolkata'],
+    ['Mumbai', 'IN', 19.076, 72.8777, 14, 'Asia/Kolkata'],
+    ['Hyderabad', 'IN', 17.385, 78.4867, 542, 'Asia/Kolkata'],
+    ['Kolkata', 'IN', 22.5726, 88.3639, 9, 'Asia/Kolkata'],
+    ['Baghdad', 'IQ', 33.3152, 44.3661, 34, 'Asia/Baghdad'],
+    ['Tehran', 'IR', 35.6892, 51.389, 1189, 'Asia/Tehran'],
+    ['Mashhad', 'IR', 36.2605, 59.6168, 995, 'Asia/Tehran'],
+    ['Reykjavík', 'IS', 64.1466, -21.9426, 23, 'Atlantic/Reykjavik'],
+    ['Rome', 'IT', 41.9028, 12.4964, 21, 'Europe/Rome'],
+    ['Milan', 'IT', 45.4642, 9.19, 120, 'Europe/Rome'],
+    ['Amman', 'JO', 31.9454, 35.9284, 757, 'Asia/Amman'],
+    ['Tokyo', 'JP', 35.6762, 139.6503, 40, 'Asia/Tokyo'],
+    ['Osaka', 'JP', 34.6937, 135.5023, 12, 'Asia/Tokyo'],
+    ['Nairobi', 'KE', -1.2921, 36.8219, 1795, 'Africa/Nairobi'],
+    ['Seoul', 'KR', 37.5665, 126.978, 38, 'Asia/Seoul'],
+    ['Kuwait City', 'KW', 29.3759, 47.9774, 15, 'Asia/Kuwait'],
+    ['Almaty', 'KZ', 43.222, 76.8512, 785, 'Asia/Almaty'],
+    ['Beirut', 'LB', 33.8938, 35.5018, 56, 'Asia/Beirut'],
+    ['Tripoli', 'LY', 32.8872, 13.1913, 81, 'Africa/Tripoli'],
+    ['Casablanca', 'MA', 33.5731, -7.5898, 27, 'Africa/Casablanca'],
+    ['Rabat', 'MA', 34.0209, -6.8416, 75, 'Africa/Casablanca'],
+    ['Malé', 'MV', 4.1755, 73.5093, 2, 'Indian/Maldives'],
+    ['Mexico City', 'MX', 19.4326, -99.1332, 2240, 'America/Mexico_City'],
+    ['Kuala Lumpur', 'MY', 3.139, 101.6869, 56, 'Asia/Kuala_Lumpur'],
+    ['Lagos', 'NG', 6.5244, 3.3792, 41, 'Africa/Lagos'],
+    ['Kano', 'NG', 12.0022, 8.592, 488, 'Africa/Lagos'],
+    ['Amsterdam', 'NL', 52.3676, 4.9041, -2, 'Europe/Amsterdam'],
+    ['Oslo', 'NO', 59.9139, 10.7522, 23, 'Europe/Oslo'],
+    ['Tromsø', 'NO', 69.6492, 18.9553, 10, 'Europe/Oslo'],
+    ['Auckland', 'NZ', -36.8485, 174.7633, 196, 'Pacific/Auckland'],
+    ['Muscat', 'OM', 23.588, 58.3829, 15, 'Asia/Muscat'],
+    ['Lima', 'PE', -12.0464, -77.0428, 154, 'America/Lima'],
+    ['Manila', 'PH', 14.5995, 120.9842, 7, 'Asia/Manila'],
+    ['Karachi', 'PK', 24.8607, 67.0011, 10, 'Asia/Karachi'],
+    ['Lahore', 'PK', 31.5204, 74.3587, 217, 'Asia/Karachi'],
+    ['Islamabad', 'PK', 33.6844, 73.0479, 540, 'Asia/Karachi'],
+    ['Warsaw', 'PL', 52.2297, 21.0122, 100, 'Europe/Warsaw'],
+    ['Jerusalem', 'PS', 31.7683, 35.2137, 754, 'Asia/Jerusalem'],
+    ['Lisbon', 'PT', 38.7223, -9.1393, 2, 'Europe/Lisbon'],
+    ['Doha', 'QA', 25.2854, 51.531, 10, 'Asia/Qatar'],
+    ['Moscow', 'RU', 55.7558, 37.6173, 156, 'Europe/Moscow'],
+    ['Kazan', 'RU', 55.7887, 49.1221, 116, 'Europe/Moscow'],
+    ['Grozny', 'RU', 43.3178, 45.6949, 190, 'Europe/Moscow'],
+    ['Novosibirsk', 'RU', 55.0084, 82.9357, 150, 'Asia/Novosibirsk'],
+    ['Vladivostok', 'RU', 43.1332, 131.9113, 8, 'Asia/Vladivostok'],
+    ['Makkah', 'SA', 21.4225, 39.8262, 277, 'Asia/Riyadh'],
+    ['Madinah', 'SA', 24.4672, 39.6111, 608, 'Asia/Riyadh'],
+    ['Riyadh', 'SA', 24.7136, 46.6753, 612, 'Asia/Riyadh'],
+    ['Jeddah', 'SA', 21.4858, 39.1925, 12, 'Asia/Riyadh'],
+    ['Khartoum', 'SD', 15.5007, 32.5599, 381, 'Africa/Khartoum'],
+    ['Stockholm', 'SE', 59.3293, 18.0686, 28, 'Europe/Stockholm'],
+    ['Singapore', 'SG', 1.3521, 103.8198, 15, 'Asia/Singapore'],
+    ['Dakar', 'SN', 14.7167, -17.4677, 22, 'Africa/Dakar'],
+    ['Mogadishu', 'SO', 2.0469, 45.3182, 9, 'Africa/Mogadishu'],
+    ['Damascus', 'SY', 33.5138, 36.2765, 680, 'Asia/Damascus'],
+    ['Bangkok', 'TH', 13.7563, 100.5018, 2, 'Asia/Bangkok'],
+    ['Tunis', 'TN', 36.8065, 10.1815, 4, 'Africa/Tunis'],
+    ['Istanbul', 'TR', 41.0082, 28.9784, 39, 'Europe/Istanbul'],
+    ['Ankara', 'TR', 39.9334, 32.8597, 938, 'Europe/Istanbul'],
+    ['Dar es Salaam', 'TZ', -6.7924, 39.2083, 24, 'Africa/Dar_es_Salaam'],
+    ['New York', 'US', 40.7128, -74.006, 10, 'America/New_York'],
+    ['Los Angeles', 'US', 34.0522, -118.2437, 71, 'America/Los_Angeles'],
+    ['Chicago', 'US', 41.8781, -87.6298, 181, 'America/Chicago'],
+    ['Houston', 'US', 29.7604, -95.3698, 32, 'America/Chicago'],
+    ['Detroit', 'US', 42.3314, -83.0458, 183, 'America/Detroit'],
+    ['Dearborn', 'US', 42.3223, -83.1763, 183, 'America/Detroit'],
+    ['Denver', 'US', 39.7392, -104.9903, 1609, 'America/Denver'],
+    ['Phoenix', 'US', 33.4484, -112.074, 331, 'America/Phoenix'],
+    ['Seattle', 'US', 47.6062, -122.3321, 52, 'America/Los_Angeles'],
+    ['Atlanta', 'US', 33.749, -84.388, 320, 'America/New_York'],
+    ['Miami', 'US', 25.7617, -80.1918, 2, 'America/New_York'],
+    ['Anchorage', 'US', 61.2181, -149.9003, 31, 'America/Anchorage'],
+    ['Honolulu', 'US', 21.3069, -157.8583, 6, 'Pacific/Honolulu'],
+    ['Tashkent', 'UZ', 41.2995, 69.2401, 455, 'Asia/Tashkent'],
+    ['Samarkand', 'UZ', 39.627, 66.975, 702, 'Asia/Samarkand'],
+    ['Caracas', 'VE', 10.4806, -66.9036, 900, 'America/Caracas'],
+    ["Sana'a", 'YE', 15.3694, 44.191, 2250, 'Asia/Aden'],
+    ['Johannesburg', 'ZA', -26.2041, 28.0473, 1753, 'Africa/Johannesburg'],
+    ['Cape Town', 'ZA', -33.9249, 18.4241, 25, 'Africa/Johannesburg'],
+];
+
+const cities: City[] = cityTable.map(([name, country, latitude, longitude, elevation, timeZone]) => ({
+    country,
+    elevation,
+    latitude,
+    longitude,
+    name,
+    timeZone,
+}));
+
+// Etc/GMT zones have inverted signs: Etc/GMT+3 is UTC-03:00
+const toFixedOffsetZone = (hours: number) =>
+    hours === 0 ? 'Etc/GMT' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+
+// Beyond this distance from any known city the zone falls back to the nautical zone of the longitude
+const MAX_INFERENCE_DISTANCE_KM = 1200;
+
+function getDistanceKm(latitude1: number, longitude1: number, latitude2: number, longitude2: number) {
+    const lat1 = degToRad(latitude1);
+    const lat2 = degToRad(latitude2);
+    const dLat = lat2 - lat1;
+    const dLng = degToRad(longitude2 - longitude1);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+    return 2 * 6371 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function findNearestCity(latitude: number, longitude: number) {
+    let nearest = cities[0];
+    let nearestDistance = Number.POSITIVE_INFINITY;
+    for (const city of cities) {
+        const distance = getDistanceKm(latitude, longitude, city.latitude, city.longitude);
+        if (distance < nearestDistance) {
+            nearest = city;
+            nearestDistance = distance;
+        }
+    }
+    return { city: nearest, distance: nearestDistance };
+}
+
+function inferTimeZone(latitude: number, longitude: number) {
+    const { city, distance } = findNearestCity(latitude, longitude);
+    if (distance <= MAX_INFERENCE_DISTANCE_KM) {
+        return city.timeZone;
+    }
+    return toFixedOffsetZone(Math.round(longitude / 15));
+}
+
+// Every zone the app can end up in. V8 lists only the current canonical names, so the older names it still accepts
+// and the city table uses (Asia/Kolkata, America/Argentina/Buenos_Aires) are added, as are the zones inferred away
+// from every city; other runtimes already list UTC
+function getTimeZoneOptions(...extra: string[]) {
+    const fixedOffsetZones = Array.from({ length: 27 }, (_, i) => toFixedOffsetZone(i - 12));
+    const zones = new Set([
+        ...Intl.supportedValuesOf('timeZone'),
+        ...cities.map((city) => city.timeZone),
+        'UTC',
+        ...fixedOffsetZones,
+        ...extra,
+    ]);
+    return [...zones].sort();
+}
+
+export { cities, findNearestCity, getDistanceKm, getTimeZoneOptions, inferTimeZone };
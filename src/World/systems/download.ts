@@ -0,0 +1,10 @@
+function downloadFile(fileName: string, content: BlobPart, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export { downloadFile };
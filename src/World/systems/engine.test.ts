@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'bun:test';
+import { getPrayerTimes, getSeasonalEvents, getSunEvents, getSunPosition, type Observer, toBearing } from './engine';
+import { applyCalculationMethod, type CalculationMethodName, type PrayerSettings } from './prayerSettings';
+import { getZonedParts } from './timezone';
+
+const makkah: Observer = { latitude: 21.4225, longitude: 39.8262, timeZone: 'Asia/Riyadh' };
+const newYork: Observer = { latitude: 40.7128, longitude: -74.006, timeZone: 'America/New_York' };
+const london: Observer = { latitude: 51.5074, longitude: -0.1278, timeZone: 'Europe/London' };
+
+const createSettings = (calculationMethod: CalculationMethodName) => {
+    const settings: PrayerSettings = {
+        calculationMethod,
+        fajrAngle: 0,
+        highLatitudeRule: 'middleofthenight',
+        ishaAngle: 0,
+        ishaInterval: 0,
+        madhab: 'shafi',
+        prayerAdjustments: { asr: 0, dhuhr: 0, fajr: 0, isha: 0, maghrib: 0, sunrise: 0 },
+        rounding: 'nearest',
+    };
+    applyCalculationMethod(settings);
+    return settings;
+};
+
+// Minutes past local midnight of a time on the observer's clock
+const toClockMinutes = (date: Date, timeZone: string) => {
+    const { hour, minute } = getZonedParts(date, timeZone);
+    return hour * 60 + minute;
+};
+
+const parseClock = (time: string) => {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + minute;
+};
+
+// Published tables are rounded to the minute, so one minute either way is allowed
+const expectClockTimes = (actual: object, expected: Record<string, string>, timeZone: string) => {
+    for (const [name, time] of Object.entries(expected)) {
+        const difference = toClockMinutes((actual as Record<string, Date>)[name], timeZone) - parseClock(time);
+        expect(Math.abs(difference), `${name} ${time}`).toBeLessThanOrEqual(1);
+    }
+};
+
+const getTimes = (day: string, observer: Observer, method: CalculationMethodName) =>
+    getPrayerTimes(new Date(`${day}T12:00:00Z`), observer, createSettings(method));
+
+describe('engine', () => {
+    describe('getPrayerTimes', () => {
+        it('should match the Umm al-Qura timetable of Makkah', () => {
+            const expected = {
+                asr: '15:28',
+                dhuhr: '12:24',
+                fajr: '05:38',
+                isha: '19:20',
+                maghrib: '17:50',
+                sunrise: '06:59',
+            };
+            expectClockTimes(getTimes('2026-01-01', makkah, 'UmmAlQura'), expected, makkah.timeZone);
+        });
+
+        it('should match the ISNA timetable of New York on both sides of the DST change', () => {
+            const standard = {
+                asr: '15:22',
+                dhuhr: '12:08',
+                fajr: '05:06',
+                isha: '19:09',
+                maghrib: '17:54',
+                sunrise: '06:20',
+            };
+            const daylight = {
+                asr: '16:24',
+                dhuhr: '13:07',
+                fajr: '06:02',
+                isha: '20:11',
+                maghrib: '18:56',
+                sunrise: '07:17',
+            };
+            expectClockTimes(getTimes('2026-03-07', newYork, 'NorthAmerica'), standard, newYork.timeZone);
+            expectClockTimes(getTimes('2026-03-09', newYork, 'NorthAmerica'), daylight, newYork.timeZone);
+        });
+
+        it('should match the MWL timetable of London on both sides of the DST change', () => {
+            const standard = { asr: '15:34', dhuhr: '12:07', maghrib: '18:27', sunrise: '05:45' };
+            const daylight = { asr: '16:36', dhuhr: '13:06', maghrib: '19:30', sunrise: '06:41' };
+            expectClockTimes(getTimes('2026-03-28', london, 'MuslimWorldLeague'), standard, london.timeZone);
+            expectClockTimes(getTimes('2026-03-30', london, 'MuslimWorldLeague'), daylight, london.timeZone);
+        });
+
+        it('should give invalid dates for the twilight prayers of a polar day', () => {
+            const tromso: Observer = { latitude: 69.6492, longitude: 18.9553, timeZone: 'Europe/Oslo' };
+            const times = getTimes('2026-06-21', tromso, 'MuslimWorldLeague');
+            expect(Number.isNaN(times.fajr.getTime())).toBe(true);
+            expect(Number.isNaN(times.isha.getTime())).toBe(true);
+            expect(Number.isNaN(times.dhuhr.getTime())).toBe(false);
+        });
+    });
+
+    describe('getSunEvents', () => {
+        it('should match the published sunrise and sunset of London at both solstices', () => {
+            const summer = getSunEvents(new Date('2026-06-21T12:00:00Z'), london);
+            expectClockTimes(summer, { solarNoon: '13:02', sunrise: '04:43', sunset: '21:21' }, london.timeZone);
+            const winter = getSunEvents(new Date('2026-12-21T12:00:00Z'), london);
+            expectClockTimes(winter, { solarNoon: '11:59', sunrise: '08:04', sunset: '15:53' }, london.timeZone);
+        });
+
+        it('should give the sunrise and sunset bearings of London at the June solstice', () => {
+            const { sunriseBearing, sunsetBearing } = getSunEvents(new Date('2026-06-21T12:00:00Z'), london);
+            expect(sunriseBearing).toBeCloseTo(49, 0);
+            expect(sunsetBearing).toBeCloseTo(311, 0);
+        });
+
+        it('should give invalid sunrise and sunset during a polar day', () => {
+            const events = getSunEvents(new Date('2026-06-21T12:00:00Z'), { ...london, latitude: 78.22 });
+            expect(Number.isNaN(events.sunrise.getTime())).toBe(true);
+            expect(Number.isNaN(events.dayLength)).toBe(true);
+            expect(Number.isNaN(events.sunriseBearing)).toBe(true);
+        });
+    });
+
+    describe('getSunPosition', () => {
+        it('should put the sun at the zenith of the Kaaba on its published transit', () => {
+            const { altitude } = getSunPosition(new Date('2026-05-28T09:18:00Z'), makkah, 1);
+            expect((altitude * 180) / Math.PI).toBeGreaterThan(89.5);
+        });
+
+        it('should match the published altitude and bearing of the sun over London', () => {
+            const { altitude, azimuth, y } = getSunPosition(new Date('2026-06-21T12:00:00Z'), london, 10);
+            expect((altitude * 180) / Math.PI).toBeCloseTo(61.9, 1);
+            expect(toBearing(azimuth)).toBeCloseTo(178.8, 0);
+            expect(y).toBeCloseTo(10 * Math.sin(altitude), 6);
+        });
+    });
+
+    describe('getSeasonalEvents', () => {
+        it('should be within 15 minutes of the published equinoxes and solstices', () => {
+            const published = {
+                decemberSolstice: '2026-12-21T20:50:00Z',
+                juneSolstice: '2026-06-21T08:24:00Z',
+                marchEquinox: '2026-03-20T14:46:00Z',
+                septemberEquinox: '2026-09-23T00:05:00Z',
+            };
+            const events = getSeasonalEvents(2026);
+            for (const [event, time] of Object.entries(published)) {
+                const difference = events[event as keyof typeof published].getTime() - Date.parse(time);
+                expect(Math.abs(difference), event).toBeLessThan(15 * 60 * 1000);
+            }
+        });
+    });
+});
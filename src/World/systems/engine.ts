@@ -0,0 +1,245 @@
+import { Coordinates, PrayerTimes } from 'adhan';
+import { getPosition, getTimes } from 'suncalc';
+import { createCalculationParameters, type PrayerSettings } from './prayerSettings';
+import { addZonedDays, getDaysInYear, getZonedParts, startOfZonedDay, zonedTimeToUtc } from './timezone';
+
+// Pure solar and prayer computations, free of three.js and the DOM so they also run in workers and scripts
+
+export interface GeoLocation {
+    latitude: number;
+    longitude: number;
+}
+
+export interface Observer extends GeoLocation {
+    timeZone: string;
+}
+
+export interface Point3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+// altitude and azimuth in radians, azimuth measured from south towards west as in suncalc
+export interface SunPosition extends Point3 {
+    altitude: number;
+    azimuth: number;
+}
+
+export interface PathPoint extends Point3 {
+    time: number;
+}
+
+export interface SunSurfaceResolution {
+    // days between the sampled day paths
+    dayStep: number;
+    // minutes between the samples along each day path
+    minuteStep: number;
+}
+
+// How the hour of an analemma is read: the observer's wall clock, UTC or local mean solar time
+export type AnalemmaTimeBasis = 'clock' | 'meanSolar' | 'utc';
+
+export interface CalendarDay {
+    day: number;
+    month: number;
+    year: number;
+}
+
+export type SeasonalEvent = 'marchEquinox' | 'juneSolstice' | 'septemberEquinox' | 'decemberSolstice';
+
+const DAY_PATH_STEP = 15 * 60 * 1000;
+
+const analemmaTimeBasisOptions: Record<string, AnalemmaTimeBasis> = {
+    'Local clock': 'clock',
+    'Local mean solar': 'meanSolar',
+    UTC: 'utc',
+};
+
+// A fixed non leap year keeps the analemmas and the sun surface identical from one year to the next
+const REFERENCE_YEAR = 2022;
+
+const degToRad = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Compass bearing in degrees (clockwise from north) of a suncalc azimuth
+const toBearing = (azimuth: number) => ((azimuth * 180) / Math.PI + 540) % 360;
+
+// Scene axes: +x points south, +z west and +y up
+function toCartesian(altitude: number, azimuth: number, radius: number): Point3 {
+    return {
+        x: radius * Math.cos(altitude) * Math.cos(azimuth),
+        y: radius * Math.sin(altitude),
+        z: radius * Math.cos(altitude) * Math.sin(azimuth),
+    };
+}
+
+function getSunPosition(date: number | Date, location: GeoLocation, radius: number): SunPosition {
+    const { altitude, azimuth } = getPosition(new Date(date), location.latitude, location.longitude);
+    return { altitude, azimuth, ...toCartesian(altitude, azimuth, radius) };
+}
+
+// Local midnight to midnight, 23 or 25 hours long on DST changes
+function getDayBounds(date: number | Date, timeZone: string) {
+    const start = startOfZonedDay(date, timeZone);
+    return { end: addZonedDays(start, 1, timeZone), start };
+}
+
+// Samples every step from start, always ending exactly at end
+function getSunPath(start: number, end: number, location: GeoLocation, radius: number, step = DAY_PATH_STEP) {
+    const points: PathPoint[] = [];
+    for (let time = start; time < end; time += step) {
+        points.push({ ...getSunPosition(time, location, radius), time });
+    }
+    points.push({ ...getSunPosition(end, location, radius), time: end });
+    return points;
+}
+
+function getDayPath(date: number | Date, observer: Observer, radius: number, step = DAY_PATH_STEP) {
+    const { start, end } = getDayBounds(date, observer.timeZone);
+    return getSunPath(start, end, observer, radius, step);
+}
+
+// Local mean solar time runs ahead of UTC by four minutes per degree of longitude east
+function getAnalemmaTime(calendarDay: CalendarDay, hour: number, observer: Observer, basis: AnalemmaTimeBasis) {
+    const { day, month, year } = calendarDay;
+    if (basis === 'clock') {
+        return zonedTimeToUtc({ day, hour, month, year }, observer.timeZone);
+    }
+    const utc = Date.UTC(year, month - 1, day, hour);
+    return basis === 'utc' ? utc : utc - (observer.longitude / 15) * 60 * 60 * 1000;
+}
+
+// Sun position at the same time of day on every day of the year
+function getAnalemma(
+    hour: number,
+    observer: Observer,
+    radius: number,
+    basis: AnalemmaTimeBasis = 'clock',
+    year = REFERENCE_YEAR,
+) {
+    const points: Point3[] = [];
+    const days = getDaysInYear(year);
+    for (let day = 1; day <= days; day++) {
+        const date = getAnalemmaTime({ day, month: 1, year }, hour, observer, basis);
+        points.push(getSunPosition(date, observer, radius));
+    }
+    return points;
+}
+
+// Whole hours from first to last (wrapping past midnight) every step hours
+function getAnalemmaHours(first: number, last: number, step: number) {
+    const [from, to, every] = [first, last, step].map(Math.round);
+    const span = (to - from + 24) % 24;
+    return Array.from({ length: Math.floor(span / Math.max(every, 1)) + 1 }, (_, i) => (from + i * every) % 24);
+}
+
+// Triangles (three points each) between the sampled day paths of a whole year, the band swept by the sun
+function getSunSurface(
+    observer: Observer,
+    radius: number,
+    { dayStep, minuteStep }: SunSurfaceResolution,
+    year = REFERENCE_YEAR,
+) {
+    const days = getDaysInYear(year);
+    // samples always include the closing edge: midnight at the end of the day, January 1st of the next year
+    const steps = (length: number, step: number) => [
+        ...Array.from({ length: Math.ceil(length / step) }, (_, i) => i * step),
+        length,
+    ];
+    const minutes = steps(24 * 60, minuteStep);
+    // one time zone lookup per row: its samples divide the time between two local midnights, however long the day
+    const row = (day: number) => {
+        const start = zonedTimeToUtc({ day: day + 1, month: 1, year }, observer.timeZone);
+        const end = zonedTimeToUtc({ day: day + 2, month: 1, year }, observer.timeZone);
+        return minutes.map((minute) => getSunPosition(start + ((end - start) * minute) / (24 * 60), observer, radius));
+    };
+    // each sampled day path is computed once and shared by the strips on both of its sides
+    const rows = steps(days, dayStep).map(row);
+    const triangles: Point3[] = [];
+    for (let i = 0; i < rows.length - 1; i++) {
+        const [row, nextRow] = [rows[i], rows[i + 1]];
+        for (let j = 0; j < minutes.length - 1; j++) {
+            triangles.push(row[j], row[j + 1], nextRow[j], nextRow[j], row[j + 1], nextRow[j + 1]);
+        }
+    }
+    return triangles;
+}
+
+// Mean equinox and solstice instants from Meeus, Astronomical Algorithms ch. 27 (valid 1000-3000, within minutes)
+const seasonalTerms: Record<SeasonalEvent, number[]> = {
+    decemberSolstice: [2451900.05952, 365242.74049, -0.06223, -0.00823, 0.00032],
+    juneSolstice: [2451716.56767, 365241.62603, 0.00325, 0.00888, -0.0003],
+    marchEquinox: [2451623.80984, 365242.37404, 0.05169, -0.00411, -0.00057],
+    septemberEquinox: [2451810.21715, 365242.01767, -0.11575, 0.00337, 0.00078],
+};
+
+function getSeasonalEvents(year: number) {
+    const millennia = (year - 2000) / 1000;
+    const events = {} as Record<SeasonalEvent, Date>;
+    for (const [event, terms] of Object.entries(seasonalTerms)) {
+        const julianDay = terms.reduce((sum, term, power) => sum + term * millennia ** power, 0);
+        events[event as SeasonalEvent] = new Date((julianDay - 2440587.5) * 86400000);
+    }
+    return events;
+}
+
+// adhan picks the day from the local calendar fields of the date it is given
+function getPrayerTimes(date: number | Date, observer: Observer, settings: PrayerSettings) {
+    const { year, month, day } = getZonedParts(date, observer.timeZone);
+    return new PrayerTimes(
+        new Coordinates(observer.latitude, observer.longitude),
+        new Date(year, month - 1, day),
+        createCalculationParameters(settings),
+    );
+}
+
+// Sunrise, solar noon and sunset of the local day with the compass bearings of the sun at sunrise and sunset;
+// sunrise and sunset are invalid dates (and the bearings NaN) during polar day or night
+function getSunEvents(date: number | Date, observer: Observer) {
+    const middleOfDay = getDayBounds(date, observer.timeZone).start + 12 * 60 * 60 * 1000;
+    const { solarNoon, sunrise, sunset } = getTimes(new Date(middleOfDay), observer.latitude, observer.longitude);
+    const bearingAt = (time: Date) =>
+        Number.isNaN(time.getTime()) ? Number.NaN : toBearing(getSunPosition(time, observer, 1).azimuth);
+    return {
+        dayLength: sunset.getTime() - sunrise.getTime(),
+        solarNoon,
+        sunrise,
+        sunriseBearing: bearingAt(sunrise),
+        sunset,
+        sunsetBearing: bearingAt(sunset),
+    };
+}
+
+// Horizontal offset of the shadow tip of a vertical stick, or null while the sun is below the horizon
+function getShadowOffset(date: number | Date, location: GeoLocation, height: number) {
+    const { y, x, z } = getSunPosition(date, location, 1);
+    if (y <= 0) {
+        return null;
+    }
+    const scale = -height / y;
+    return { x: x * scale, z: z * scale };
+}
+
+const toPositions = (points: Point3[]) => points.flatMap(({ x, y, z }) => [x, y, z]);
+
+export {
+    analemmaTimeBasisOptions,
+    DAY_PATH_STEP,
+    degToRad,
+    getAnalemma,
+    getAnalemmaHours,
+    getAnalemmaTime,
+    getDayBounds,
+    getDayPath,
+    getPrayerTimes,
+    getSeasonalEvents,
+    getShadowOffset,
+    getSunEvents,
+    getSunPath,
+    getSunPosition,
+    getSunSurface,
+    REFERENCE_YEAR,
+    toBearing,
+    toCartesian,
+    toPositions,
+};
@@ -1,16 +1,55 @@
 import GUI from 'lil-gui';
-import { AmbientLight, DirectionalLight, DirectionalLightHelper, CameraHelper } from 'three';
-import { SunPath, SunPathParams } from './SunPath';
-import { SkyControl } from './DynamicSky';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import type { AmbientLight, CameraHelper, DirectionalLight, DirectionalLightHelper } from 'three';
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import type { FrameBenchmark } from './benchmark';
+import { cities, getTimeZoneOptions } from './cities';
+import type { SkyControl } from './DynamicSky';
+import { analemmaTimeBasisOptions } from './engine';
+import { formatHijriDate, hijriCalendarOptions, hijriMonthNames } from './hijri';
+import type { InsolationAnalysis } from './insolation';
+import {
+    formatCityLabel,
+    loadFavouriteLocations,
+    type SavedLocation,
+    saveFavouriteLocations,
+    searchCities,
+} from './locations';
+import {
+    calculationMethodOptions,
+    highLatitudeRuleOptions,
+    madhabOptions,
+    pickPrayerSettings,
+    prayerNames,
+    roundingOptions,
+} from './prayerSettings';
+import type { PointProbes } from './probes';
+import type { ParamName, SettableParamName } from './SceneStore';
+import type { SunPath, SunPathParams } from './SunPath';
+import type { SceneState } from './sceneState';
+import {
+    deletePreset,
+    exportPresets,
+    importPresets,
+    loadSettings,
+    renamePreset,
+    type StoredSettings,
+    savePreset,
+    saveSettings,
+} from './settingsStore';
+import { type TimeLapseExport, timeLapseFormatOptions } from './timeLapse';
+import { exportTimetable, generateTimetable, type TimetableFormat, type TimetableRange } from './timetableExport';
 
 interface CameraControl {
     firstPerson: () => void;
     birdView: () => void;
 }
 
+interface PresetControl {
+    getState: () => SceneState;
+    applyState: (state: SceneState) => void;
+}
+
 function createGUI(
-    params: SunPathParams,
     ambientLight: AmbientLight,
     sunLight: DirectionalLight,
     sunHelper: DirectionalLightHelper,
@@ -19,9 +58,34 @@ function createGUI(
     controls: OrbitControls,
     skyControl: SkyControl,
     cameraControl: CameraControl,
+    presetControl: PresetControl,
+    insolation: InsolationAnalysis,
+    probes: PointProbes,
+    timeLapse: TimeLapseExport,
+    benchmark: FrameBenchmark,
 ) {
+    const { store } = sunPath;
+    // The controllers edit a copy of the params and hand every edit to the store, whose changes flow back into the
+    // copy, so values set anywhere else (the timeline, links, presets) show up here as well
+    const params: SunPathParams = { ...store.params, prayerAdjustments: { ...store.params.prayerAdjustments } };
+    const commit = (name: SettableParamName) => () => store.set({ [name]: params[name] });
+
     const gui = new GUI();
     gui.close();
+    store.subscribe(({ keys }) => {
+        const { prayerAdjustments } = params;
+        Object.assign(params, store.params, { prayerAdjustments });
+        Object.assign(prayerAdjustments, store.params.prayerAdjustments);
+        for (const controller of gui.controllersRecursive()) {
+            const name = controller.object === prayerAdjustments ? 'prayerAdjustments' : controller.property;
+            if (
+                (controller.object === params || controller.object === prayerAdjustments) &&
+                keys.has(name as ParamName)
+            ) {
+                controller.updateDisplay();
+            }
+        }
+    });
 
     const skyFolder = gui.addFolder('Sky');
     skyFolder.add(skyControl, 'turbidity', 0.0, 20.0, 0.1);
@@ -41,9 +105,72 @@ function createGUI(
     lightFolder.close();
 
     const locationFolder = gui.addFolder('Location');
-    locationFolder.add(params, 'latitude').onChange(() => sunPath.updateLocation());
-    locationFolder.add(params, 'longitude').onChange(() => sunPath.updateLocation());
-    locationFolder.add(params, 'northOffset').onChange(() => sunPath.updateNorth());
+    const applyLocation = ({ latitude, longitude, timeZone }: SavedLocation) => {
+        store.set({ latitude, longitude, timeZone });
+    };
+    const getCityOptions = (query: string) => searchCities(query).map(formatCityLabel);
+    const locationControl = { city: '', favourite: '', favouriteName: '', search: '' };
+    locationFolder
+        .add(locationControl, 'search')
+        .name('Search city')
+        .onChange((query: string) => cityController.options(getCityOptions(query)));
+    const cityController = locationFolder
+        .add(locationControl, 'city', getCityOptions(''))
+        .name('City')
+        .onChange((label: string) => {
+            const city = cities.find((c) => formatCityLabel(c) === label);
+            if (city) {
+                applyLocation({ ...city, name: label });
+            }
+        });
+    locationFolder.add(params, 'latitude').onChange(commit('latitude'));
+    locationFolder.add(params, 'longitude').onChange(commit('longitude'));
+    locationFolder.add(params, 'autoTimeZone').name('Infer time zone').onChange(commit('autoTimeZone'));
+    // the zone of a saved scene or link may be a name of its own, so it is listed too
+    locationFolder
+        .add(params, 'timeZone', getTimeZoneOptions(params.timeZone))
+        .name('Time zone')
+        .onChange(() => store.set({ autoTimeZone: false, timeZone: params.timeZone }));
+    locationFolder.add(params, 'northOffset').onChange(commit('northOffset'));
+
+    // Favourites live in localStorage, so they survive reloads without any server
+    let favourites = loadFavouriteLocations();
+    const getFavouriteOptions = () => favourites.map(({ name }) => name);
+    const favouritesFolder = locationFolder.addFolder('Favourites');
+    const favouriteController = favouritesFolder
+        .add(locationControl, 'favourite', getFavouriteOptions())
+        .name('Favourite')
+        .onChange((name: string) => {
+            const favourite = favourites.find((location) => location.name === name);
+            if (favourite) {
+                applyLocation(favourite);
+            }
+        });
+    favouritesFolder.add(locationControl, 'favouriteName').name('Name');
+    const favouriteActions = {
+        remove: () => {
+            favourites = favourites.filter(({ name }) => name !== locationControl.favourite);
+            saveFavouriteLocations(favourites);
+            locationControl.favourite = '';
+            favouriteController.options(getFavouriteOptions());
+        },
+        save: () => {
+            const { latitude, longitude, timeZone } = params;
+            const name =
+                locationControl.favouriteName.trim() ||
+                locationControl.city ||
+                `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
+            favourites = [
+                ...favourites.filter((location) => location.name !== name),
+                { latitude, longitude, name, timeZone },
+            ];
+            saveFavouriteLocations(favourites);
+            locationControl.favourite = name;
+            favouriteController.options(getFavouriteOptions());
+        },
+    };
+    favouritesFolder.add(favouriteActions, 'save').name('Save current location');
+    favouritesFolder.add(favouriteActions, 'remove').name('Remove selected');
     locationFolder.close();
 
     const cameraFolder = gui.addFolder('Camera');
@@ -53,45 +180,246 @@ function createGUI(
     cameraFolder.close();
 
     const timeFolder = gui.addFolder('Time');
-    timeFolder
-        .add(params, 'minute', 0, 60, 1)
-        .onChange(() => sunPath.updateHour())
-        .listen();
-    timeFolder
-        .add(params, 'hour', 0, 24, 1)
-        .onChange(() => sunPath.updateHour())
-        .listen();
-    timeFolder
-        .add(params, 'day', 1, 30, 1)
-        .onChange(() => sunPath.updateMonth())
-        .listen();
-    timeFolder
-        .add(params, 'month', 1, 12, 1)
-        .onChange(() => sunPath.updateMonth())
-        .listen();
-    timeFolder.add(params, 'animateTime');
-    timeFolder.add(params, 'timeSpeed').min(0).max(10000).step(0.1);
+    timeFolder.add(params, 'minute', 0, 59, 1).onChange(commit('minute'));
+    timeFolder.add(params, 'hour', 0, 23, 1).onChange(commit('hour'));
+    timeFolder.add(params, 'day', 1, 31, 1).onChange(commit('day'));
+    timeFolder.add(params, 'month', 1, 12, 1).onChange(commit('month'));
+    timeFolder.add(params, 'animateTime').onChange(commit('animateTime'));
+    timeFolder.add(params, 'timeSpeed').min(0).max(10000).step(0.1).onChange(commit('timeSpeed'));
+
+    const hijriFolder = timeFolder.addFolder('Hijri Calendar');
+    hijriFolder.add(params, 'hijriCalendar', hijriCalendarOptions).name('Calendar').onChange(commit('hijriCalendar'));
+    hijriFolder.add(params, 'hijriAdjustment', -3, 3, 1).name('Adjustment (days)').onChange(commit('hijriAdjustment'));
+    const hijriTarget = { ...sunPath.getHijriDate(), day: 1, month: 9 };
+    hijriFolder.add(hijriTarget, 'day', 1, 30, 1).name('Day');
+    hijriFolder
+        .add(hijriTarget, 'month', Object.fromEntries(hijriMonthNames.map((name, i) => [name, i + 1])))
+        .name('Month');
+    hijriFolder.add(hijriTarget, 'year', 1, 2000, 1).name('Year');
+    hijriFolder
+        .add(
+            {
+                goToHijriDate: () => {
+                    if (!sunPath.goToHijriDate(hijriTarget)) {
+                        window.alert(`${formatHijriDate(hijriTarget)} does not exist in this calendar`);
+                    }
+                },
+            },
+            'goToHijriDate',
+        )
+        .name('Go to Hijri date');
+    hijriFolder.close();
     timeFolder.close();
 
     const sunsurfaceFolder = gui.addFolder('Sun Surface');
-    sunsurfaceFolder.add(params, 'showSunSurface').onChange(() => sunPath.updateLocation());
-    sunsurfaceFolder.add(params, 'showAnalemmas').onChange(() => sunPath.updateLocation());
-    sunsurfaceFolder.add(params, 'showSunDayPath').onChange(() => sunPath.updateLocation());
+    sunsurfaceFolder.add(params, 'showSunSurface').onChange(commit('showSunSurface'));
+    sunsurfaceFolder
+        .add(params, 'sunSurfaceDayStep', 1, 61, 1)
+        .name('Surface days step')
+        .onFinishChange(commit('sunSurfaceDayStep'));
+    sunsurfaceFolder
+        .add(params, 'sunSurfaceMinuteStep', 5, 120, 5)
+        .name('Surface minutes step')
+        .onFinishChange(commit('sunSurfaceMinuteStep'));
+    const analemmaFolder = sunsurfaceFolder.addFolder('Analemmas');
+    analemmaFolder.add(params, 'showAnalemmas').name('Show').onChange(commit('showAnalemmas'));
+    analemmaFolder.add(params, 'showAnalemmaLabels').name('Hour labels').onChange(commit('showAnalemmaLabels'));
+    analemmaFolder
+        .add(params, 'analemmaTimeBasis', analemmaTimeBasisOptions)
+        .name('Time basis')
+        .onChange(commit('analemmaTimeBasis'));
+    analemmaFolder
+        .add(params, 'analemmaFirstHour', 0, 23, 1)
+        .name('First hour')
+        .onFinishChange(commit('analemmaFirstHour'));
+    analemmaFolder
+        .add(params, 'analemmaLastHour', 0, 23, 1)
+        .name('Last hour')
+        .onFinishChange(commit('analemmaLastHour'));
+    analemmaFolder
+        .add(params, 'analemmaHourStep', 1, 12, 1)
+        .name('Every N hours')
+        .onFinishChange(commit('analemmaHourStep'));
+    analemmaFolder.close();
+    sunsurfaceFolder.add(params, 'showSunDayPath').onChange(commit('showSunDayPath'));
+    sunsurfaceFolder
+        .add(params, 'showSeasonalPaths')
+        .name('Solstices & equinoxes')
+        .onChange(commit('showSeasonalPaths'));
+    sunsurfaceFolder.add(params, 'showMonthlyPaths').name('Monthly paths').onChange(commit('showMonthlyPaths'));
+    sunsurfaceFolder.add(params, 'showMoon').name('Moon').onChange(commit('showMoon'));
+    sunsurfaceFolder.add(params, 'showMoonDayPath').name('Moon day path').onChange(commit('showMoonDayPath'));
+    sunsurfaceFolder.add(params, 'showHorizonRing').name('Horizon ring').onChange(commit('showHorizonRing'));
+    sunsurfaceFolder.add(params, 'showPrayerMarkers').onChange(commit('showPrayerMarkers'));
+    sunsurfaceFolder.add(params, 'showTwilightCones').onChange(commit('showTwilightCones'));
+    sunsurfaceFolder.add(params, 'showGnomon').onChange(commit('showGnomon'));
+    sunsurfaceFolder.add(params, 'gnomonHeight', 0.5, 4, 0.1).onChange(commit('gnomonHeight'));
     sunsurfaceFolder.add(sunPath.sunPathLight.children[0].children[0], 'visible').name('Sun Sphere');
     sunsurfaceFolder.add(sunPath.sunPathLight.children[1], 'visible').name('Orientation');
+    const qiblaArrow = sunPath.sunPathLight.getObjectByName('qiblaArrow');
+    if (qiblaArrow) {
+        sunsurfaceFolder.add(qiblaArrow, 'visible').name('Qibla');
+    }
     sunsurfaceFolder.close();
 
     const prayerFolder = gui.addFolder('Prayer Settings');
     prayerFolder
-        .add(params, 'fajrAngle', 10, 20, 0.1)
-        .name('Fajr Twilight Angle')
-        .onChange(() => sunPath.updatePrayerInfo());
+        .add(params, 'calculationMethod', calculationMethodOptions)
+        .name('Calculation Method')
+        .onChange(commit('calculationMethod'));
+    prayerFolder.add(params, 'fajrAngle', 10, 20, 0.1).name('Fajr Twilight Angle').onChange(commit('fajrAngle'));
+    prayerFolder.add(params, 'ishaAngle', 0, 20, 0.1).name('Isha Twilight Angle').onChange(commit('ishaAngle'));
+    prayerFolder.add(params, 'ishaInterval', 0, 120, 1).name('Isha Interval (min)').onChange(commit('ishaInterval'));
+    prayerFolder.add(params, 'madhab', madhabOptions).name('Asr Madhab').onChange(commit('madhab'));
     prayerFolder
-        .add(params, 'ishaAngle', 10, 20, 0.1)
-        .name('Isha Twilight Angle')
-        .onChange(() => sunPath.updatePrayerInfo());
+        .add(params, 'highLatitudeRule', highLatitudeRuleOptions)
+        .name('High Latitude Rule')
+        .onChange(commit('highLatitudeRule'));
+    prayerFolder.add(params, 'rounding', roundingOptions).name('Rounding').onChange(commit('rounding'));
+    const adjustmentsFolder = prayerFolder.addFolder('Adjustments (min)');
+    for (const prayer of prayerNames) {
+        adjustmentsFolder.add(params.prayerAdjustments, prayer, -30, 30, 1).onChange(commit('prayerAdjustments'));
+    }
+    adjustmentsFolder.close();
+    prayerFolder.add(params, 'showFastingChart').name('Fasting chart').onChange(commit('showFastingChart'));
     prayerFolder.close();
 
+    const exportControl = {
+        export: () => {
+            const { latitude, longitude, timeZone } = params;
+            const days = generateTimetable(sunPath.date, exportControl.range, timeZone, (date) =>
+                sunPath.getPrayerTimes(date),
+            );
+            const location = { latitude, longitude, timeZone };
+            exportTimetable(days, exportControl.format, location, pickPrayerSettings(params));
+        },
+        format: 'csv' as TimetableFormat,
+        range: 'month' as TimetableRange,
+    };
+    const exportFolder = gui.addFolder('Export Timetable');
+    exportFolder.add(exportControl, 'range', { Day: 'day', Month: 'month', Year: 'year' }).name('Range');
+    exportFolder.add(exportControl, 'format', { CSV: 'csv', iCalendar: 'ics', JSON: 'json' }).name('Format');
+    exportFolder.add(exportControl, 'export').name('Download');
+    exportFolder.close();
+
+    const insolationFolder = gui.addFolder('Sunlight Analysis');
+    insolationFolder.add(insolation.settings, 'from').name('First day');
+    insolationFolder.add(insolation.settings, 'to').name('Last day');
+    insolationFolder.add(insolation.settings, 'dayStep', 1, 30, 1).name('Days step');
+    insolationFolder.add(insolation.settings, 'minuteStep', 5, 120, 5).name('Minutes step');
+    insolationFolder.add(insolation, 'run').name('Run analysis');
+    insolationFolder.add(insolation, 'cancel').name('Cancel');
+    insolationFolder
+        .add(insolation, 'showHeatmap')
+        .name('Show heatmap')
+        .onChange(() => insolation.updateHeatmap());
+    insolationFolder.add(insolation, 'status').name('Status').disable().listen();
+    insolationFolder.close();
+
+    const probeFolder = gui.addFolder('Point Probes');
+    probeFolder.add(probes, 'enabled').name('Click to probe');
+    probeFolder.add(probes, 'exportCSV').name('Export CSV');
+    const probeListFolder = probeFolder.addFolder('Probes');
+    probes.onChange = () => {
+        for (const folder of [...probeListFolder.folders]) {
+            folder.destroy();
+        }
+        for (const probe of probes.probes) {
+            const folder = probeListFolder.addFolder(probe.name);
+            folder
+                .add(probe, 'pinned')
+                .name('Pinned')
+                .onChange(() => probes.update());
+            folder.add({ show: () => probes.select(probe) }, 'show').name('Show');
+            folder.add({ remove: () => probes.removeProbe(probe) }, 'remove').name('Remove');
+        }
+    };
+    probeFolder.close();
+
+    const timeLapseFolder = gui.addFolder('Time-lapse Export');
+    timeLapseFolder.add(timeLapse.loop, 'fixedTimestep').name('Fixed timestep');
+    timeLapseFolder.add(timeLapse.loop, 'frameRate', 1, 120, 1).name('Frames per second');
+    timeLapseFolder.add(timeLapse.settings, 'from').name('First frame');
+    timeLapseFolder.add(timeLapse.settings, 'to').name('Last frame');
+    timeLapseFolder.add(timeLapse.settings, 'minuteStep', 1, 1440, 1).name('Minutes per frame');
+    timeLapseFolder.add(timeLapse.settings, 'width', 320, 3840, 1).name('Width');
+    timeLapseFolder.add(timeLapse.settings, 'height', 240, 2160, 1).name('Height');
+    timeLapseFolder.add(timeLapse.settings, 'format', timeLapseFormatOptions).name('Format');
+    timeLapseFolder.add(timeLapse, 'run').name('Export');
+    timeLapseFolder.add(timeLapse, 'cancel').name('Cancel');
+    timeLapseFolder.add(timeLapse, 'status').name('Status').disable().listen();
+    timeLapseFolder.close();
+
+    const benchmarkFolder = gui.addFolder('Benchmark');
+    benchmarkFolder.add(benchmark.settings, 'frames', 100, 20000, 100).name('Frames');
+    benchmarkFolder.add(benchmark.settings, 'days', 1, 730, 1).name('Simulated days');
+    benchmarkFolder.add(benchmark, 'run').name('Run');
+    benchmarkFolder.add(benchmark, 'cancel').name('Cancel');
+    benchmarkFolder.add(benchmark, 'status').name('Result').disable().listen();
+    benchmarkFolder.close();
+
+    // Always start from storage, the autosave keeps rewriting the current state in between
+    let presetNames = loadSettings().presets.map(({ name }) => name);
+    const presetState = { name: '', preset: '' };
+    const presetFolder = gui.addFolder('Presets');
+    const presetController = presetFolder.add(presetState, 'preset', presetNames).name('Preset');
+    presetFolder.add(presetState, 'name').name('Name');
+    const updatePresets = (update: (settings: StoredSettings) => StoredSettings, selected: string) => {
+        const settings = update(loadSettings());
+        saveSettings(settings);
+        presetNames = settings.presets.map(({ name }) => name);
+        presetState.preset = selected;
+        presetController.options(presetNames);
+    };
+    const presetActions = {
+        delete: () => updatePresets((settings) => deletePreset(settings, presetState.preset), ''),
+        export: () => exportPresets(loadSettings().presets),
+        import: () => {
+            const input = document.createElement('input');
+            input.type = 'file';
+            input.accept = '.json,application/json';
+            input.addEventListener('change', async () => {
+                const [file] = input.files ?? [];
+                if (!file) {
+                    return;
+                }
+                try {
+                    const settings = await importPresets(loadSettings(), file);
+                    updatePresets(() => settings, presetState.preset);
+                } catch (error) {
+                    console.error(error);
+                    window.alert(`Could not import ${file.name}: ${(error as Error).message}`);
+                }
+            });
+            input.click();
+        },
+        load: () => {
+            const preset = loadSettings().presets.find(({ name }) => name === presetState.preset);
+            if (preset) {
+                presetControl.applyState(preset.state);
+            }
+        },
+        rename: () => {
+            const name = presetState.name.trim();
+            if (name && presetState.preset) {
+                updatePresets((settings) => renamePreset(settings, presetState.preset, name), name);
+            }
+        },
+        save: () => {
+            const name = presetState.name.trim() || presetState.preset;
+            if (name) {
+                updatePresets((settings) => savePreset(settings, name, presetControl.getState()), name);
+            }
+        },
+    };
+    presetFolder.add(presetActions, 'load').name('Load');
+    presetFolder.add(presetActions, 'save').name('Save current as name');
+    presetFolder.add(presetActions, 'rename').name('Rename to name');
+    presetFolder.add(presetActions, 'delete').name('Delete');
+    presetFolder.add(presetActions, 'export').name('Export JSON');
+    presetFolder.add(presetActions, 'import').name('Import JSON');
+    presetFolder.close();
+
     // skyFolder.hide()
     // lightFolder.hide()
     // locationFolder.hide()
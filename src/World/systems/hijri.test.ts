@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+import type { CalendarDay } from './engine';
+import { formatHijriDate, fromHijri, type HijriCalendar, toHijri } from './hijri';
+
+const calendars: HijriCalendar[] = ['civil', 'ummAlQura'];
+
+// Every day of a Gregorian year
+const getDays = (year: number) => {
+    const days: CalendarDay[] = [];
+    for (
+        let date = new Date(Date.UTC(year, 0, 1));
+        date.getUTCFullYear() === year;
+        date.setUTCDate(date.getUTCDate() + 1)
+    ) {
+        days.push({ day: date.getUTCDate(), month: date.getUTCMonth() + 1, year });
+    }
+    return days;
+};
+
+describe('hijri', () => {
+    describe('toHijri', () => {
+        it('should match the published Umm al-Qura start of Muharram and Ramadan 1447', () => {
+            expect(toHijri({ day: 26, month: 6, year: 2025 }, 'ummAlQura')).toEqual({ day: 1, month: 1, year: 1447 });
+            expect(toHijri({ day: 18, month: 2, year: 2026 }, 'ummAlQura')).toEqual({ day: 1, month: 9, year: 1447 });
+        });
+
+        it('should start the arithmetical calendar on 16 July 622 of the Julian calendar', () => {
+            expect(toHijri({ day: 19, month: 7, year: 622 }, 'civil')).toEqual({ day: 1, month: 1, year: 1 });
+            expect(toHijri({ day: 18, month: 7, year: 622 }, 'civil').year).toBe(0);
+        });
+
+        it('should shift the calendar by the adjustment in days', () => {
+            for (const calendar of calendars) {
+                expect(toHijri({ day: 17, month: 2, year: 2026 }, calendar, 1)).toEqual(
+                    toHijri({ day: 18, month: 2, year: 2026 }, calendar),
+                );
+                expect(toHijri({ day: 19, month: 2, year: 2026 }, calendar, -1)).toEqual(
+                    toHijri({ day: 18, month: 2, year: 2026 }, calendar),
+                );
+            }
+        });
+    });
+
+    describe('fromHijri', () => {
+        it('should round trip every day of a year in both calendars and with an adjustment', () => {
+            for (const calendar of calendars) {
+                for (const adjustment of [-1, 0, 2]) {
+                    for (const day of getDays(2026)) {
+                        expect(fromHijri(toHijri(day, calendar, adjustment), calendar, adjustment)).toEqual(day);
+                    }
+                }
+            }
+        });
+
+        it('should move the Gregorian date against the adjustment', () => {
+            const ramadan = { day: 1, month: 9, year: 1447 };
+            expect(fromHijri(ramadan, 'ummAlQura')).toEqual({ day: 18, month: 2, year: 2026 });
+            expect(fromHijri(ramadan, 'ummAlQura', 1)).toEqual({ day: 17, month: 2, year: 2026 });
+            expect(fromHijri(ramadan, 'ummAlQura', -1)).toEqual({ day: 19, month: 2, year: 2026 });
+        });
+
+        it('should give null for the 30th of a 29 day month and for out of range fields', () => {
+            // even months of the arithmetical calendar have 29 days
+            expect(fromHijri({ day: 30, month: 2, year: 1447 }, 'civil')).toBeNull();
+            expect(fromHijri({ day: 30, month: 1, year: 1447 }, 'civil')).not.toBeNull();
+            expect(fromHijri({ day: 31, month: 1, year: 1447 }, 'ummAlQura')).toBeNull();
+            expect(fromHijri({ day: 1, month: 13, year: 1447 }, 'ummAlQura')).toBeNull();
+            expect(fromHijri({ day: 0, month: 1, year: 1447 }, 'civil')).toBeNull();
+        });
+
+        it('should give Dhu al-Hijjah 30 days in the leap years of the arithmetical calendar only', () => {
+            // 1447 is year 7 of its 30-year cycle, 1448 is year 8
+            expect(fromHijri({ day: 30, month: 12, year: 1447 }, 'civil')).toEqual({ day: 16, month: 6, year: 2026 });
+            expect(fromHijri({ day: 30, month: 12, year: 1448 }, 'civil')).toBeNull();
+        });
+    });
+
+    describe('formatHijriDate', () => {
+        it('should name the month', () => {
+            expect(formatHijriDate({ day: 1, month: 9, year: 1447 })).toBe('1 Ramadan 1447 AH');
+        });
+    });
+});
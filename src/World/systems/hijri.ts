@@ -0,0 +1,90 @@
+import type { CalendarDay } from './engine';
+
+// Umm al-Qura is the Saudi tabular calendar (from the ICU tables of Intl); civil is the 30-year arithmetical
+// calendar with the Friday epoch of 16 July 622
+export type HijriCalendar = 'civil' | 'ummAlQura';
+
+export type HijriDate = CalendarDay;
+
+const hijriCalendarOptions: Record<string, HijriCalendar> = {
+    Arithmetical: 'civil',
+    'Umm al-Qura': 'ummAlQura',
+};
+
+const hijriMonthNames = [
+    'Muharram',
+    'Safar',
+    "Rabi' al-Awwal",
+    "Rabi' al-Thani",
+    'Jumada al-Ula',
+    'Jumada al-Akhirah',
+    'Rajab',
+    "Sha'ban",
+    'Ramadan',
+    'Shawwal',
+    "Dhu al-Qi'dah",
+    'Dhu al-Hijjah',
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days from 1970-01-01 to 1 Muharram 1 AH (civil epoch, Julian day 1948439.5)
+const CIVIL_EPOCH = 1948439.5 - 2440587.5;
+
+const ummAlQuraFormatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', {
+    day: 'numeric',
+    month: 'numeric',
+    timeZone: 'UTC',
+    year: 'numeric',
+});
+
+const toEpochDay = ({ day, month, year }: CalendarDay) => Date.UTC(year, month - 1, day) / DAY;
+
+function fromEpochDay(epochDay: number): CalendarDay {
+    const date = new Date(epochDay * DAY);
+    return { day: date.getUTCDate(), month: date.getUTCMonth() + 1, year: date.getUTCFullYear() };
+}
+
+// Leap years (a 30 day Dhu al-Hijjah) are years 2, 5, 7, 10, 13, 16, 18, 21, 24, 26 and 29 of each 30-year cycle
+function civilToEpochDay({ day, month, year }: HijriDate) {
+    return CIVIL_EPOCH + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + Math.ceil(29.5 * (month - 1)) + day - 1;
+}
+
+function epochDayToCivil(epochDay: number): HijriDate {
+    const year = Math.floor((30 * (epochDay - CIVIL_EPOCH) + 10646) / 10631);
+    const month = Math.min(12, Math.ceil((epochDay - 29 - civilToEpochDay({ day: 1, month: 1, year })) / 29.5) + 1);
+    return { day: epochDay - civilToEpochDay({ day: 1, month, year }) + 1, month, year };
+}
+
+function epochDayToUmmAlQura(epochDay: number): HijriDate {
+    const parts = ummAlQuraFormatter.formatToParts(epochDay * DAY + DAY / 2);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+    return { day: part('day'), month: part('month'), year: part('year') };
+}
+
+// The adjustment (in days) shifts the whole calendar, for communities whose month starts a day earlier or later
+function toHijri(gregorian: CalendarDay, calendar: HijriCalendar, adjustment = 0): HijriDate {
+    const epochDay = toEpochDay(gregorian) + adjustment;
+    return calendar === 'civil' ? epochDayToCivil(epochDay) : epochDayToUmmAlQura(epochDay);
+}
+
+// Umm al-Qura months start within a couple of days of the arithmetical ones, so the search starts there;
+// null when the date does not exist, such as the 30th of a 29 day month
+function fromHijri(hijri: HijriDate, calendar: HijriCalendar, adjustment = 0): CalendarDay | null {
+    if (hijri.month < 1 || hijri.month > 12 || hijri.day < 1 || hijri.day > 30) {
+        return null;
+    }
+    const estimate = civilToEpochDay(hijri) - adjustment;
+    for (const offset of [0, -1, 1, -2, 2, -3, 3]) {
+        const gregorian = fromEpochDay(estimate + offset);
+        const { day, month, year } = toHijri(gregorian, calendar, adjustment);
+        if (day === hijri.day && month === hijri.month && year === hijri.year) {
+            return gregorian;
+        }
+    }
+    return null;
+}
+
+const formatHijriDate = ({ day, month, year }: HijriDate) => `${day} ${hijriMonthNames[month - 1]} ${year} AH`;
+
+export { formatHijriDate, fromHijri, hijriCalendarOptions, hijriMonthNames, toHijri };
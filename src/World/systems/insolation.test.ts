@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'bun:test';
+import { BoxGeometry, Group, Mesh, PlaneGeometry } from 'three';
+import { Octree } from 'three/examples/jsm/math/Octree.js';
+import { getSunEvents, type Observer } from './engine';
+import { computeInsolation, getSunSamples } from './insolation';
+
+const makkah: Observer = { latitude: 21.4225, longitude: 39.8262, timeZone: 'Asia/Riyadh' };
+
+const createFloor = (y: number, segments = 1) => {
+    const floor = new Mesh(new PlaneGeometry(1, 1, segments, segments));
+    floor.rotation.x = -Math.PI / 2;
+    floor.position.y = y;
+    return floor;
+};
+
+const sumWeights = (samples: { weight: number }[]) => samples.reduce((sum, { weight }) => sum + weight, 0);
+
+describe('insolation', () => {
+    describe('getSunSamples', () => {
+        it('should only sample the daylight of the day at the minute step', () => {
+            const settings = { dayStep: 1, from: '2026-06-21', minuteStep: 10, to: '2026-06-21' };
+            const samples = getSunSamples(makkah, 0, settings);
+            const { dayLength } = getSunEvents(new Date('2026-06-21T09:00:00Z'), makkah);
+            expect(samples.every(({ direction }) => direction.y > 0)).toBe(true);
+            expect(samples.every(({ weight }) => weight === 10 / 60)).toBe(true);
+            expect(Math.abs(samples.length - dayLength / (10 * 60 * 1000))).toBeLessThanOrEqual(1);
+        });
+
+        it('should weigh each sampled day by the days it stands for', () => {
+            const settings = { dayStep: 3, from: '2026-06-01', minuteStep: 30, to: '2026-06-05' };
+            const samples = getSunSamples(makkah, 0, settings);
+            // the first sampled day stands for three days, the second for the two left in the range
+            expect(new Set(samples.map(({ weight }) => weight))).toEqual(new Set([1.5, 1]));
+            const single = getSunSamples(makkah, 0, { ...settings, dayStep: 1, to: '2026-06-01' });
+            expect(sumWeights(samples)).toBeCloseTo(sumWeights(single) * 5, -1);
+        });
+
+        it('should rotate the sun directions by the north offset', () => {
+            const settings = { dayStep: 1, from: '2026-06-21', minuteStep: 60, to: '2026-06-21' };
+            const [sample] = getSunSamples(makkah, 0, settings);
+            const [rotated] = getSunSamples(makkah, 90, settings);
+            expect(rotated.direction.y).toBeCloseTo(sample.direction.y, 6);
+            expect(rotated.direction.angleTo(sample.direction)).toBeGreaterThan(0.1);
+        });
+
+        it('should throw for a malformed day or a reversed range', () => {
+            expect(() =>
+                getSunSamples(makkah, 0, { dayStep: 1, from: '21/06/2026', minuteStep: 30, to: '2026-06-21' }),
+            ).toThrow('is not a date');
+            expect(() =>
+                getSunSamples(makkah, 0, { dayStep: 1, from: '2026-06-21', minuteStep: 30, to: '2026-06-20' }),
+            ).toThrow('must not be before');
+        });
+    });
+
+    describe('computeInsolation', () => {
+        const samples = getSunSamples(makkah, 0, { dayStep: 1, from: '2026-03-20', minuteStep: 30, to: '2026-03-20' });
+
+        it('should give an open face every daylight hour and a face under a roof none', async () => {
+            const open = createFloor(10);
+            const shaded = createFloor(0);
+            // wide enough to cover the sun from the shaded face at its lowest sampled altitude
+            const roof = new Mesh(new BoxGeometry(2000, 1, 2000));
+            roof.position.y = 5;
+            const octree = new Octree().fromGraphNode(roof);
+            const root = new Group().add(open, shaded);
+
+            const result = await computeInsolation(root, octree, samples);
+            expect([...result.get(open)!]).toEqual(new Array(4).fill(sumWeights(samples)));
+            expect([...result.get(shaded)!]).toEqual([0, 0, 0, 0]);
+        });
+
+        it('should reject when its signal is aborted between chunks', async () => {
+            // more vertices than one chunk, so the analysis yields at least once
+            const root = new Group().add(createFloor(10, 30));
+            const octree = new Octree().fromGraphNode(new Mesh(new BoxGeometry(4, 4, 4)));
+            const controller = new AbortController();
+            const progress: number[] = [];
+            const running = computeInsolation(root, octree, samples, {
+                onProgress: (fraction) => {
+                    progress.push(fraction);
+                    controller.abort();
+                },
+                signal: controller.signal,
+            });
+            await expect(running).rejects.toThrow();
+            expect(progress).toHaveLength(1);
+            expect(progress[0]).toBeLessThan(1);
+        });
+
+        it('should reject at once when its signal is already aborted', async () => {
+            const octree = new Octree().fromGraphNode(new Mesh(new BoxGeometry(4, 4, 4)));
+            await expect(
+                computeInsolation(new Group(), octree, samples, { signal: AbortSignal.abort() }),
+            ).rejects.toThrow();
+        });
+    });
+});
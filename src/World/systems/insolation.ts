@@ -0,0 +1,319 @@
+import {
+    BufferAttribute,
+    type BufferGeometry,
+    Color,
+    type Material,
+    Matrix3,
+    type Mesh,
+    MeshBasicMaterial,
+    type Object3D,
+    Ray,
+    Vector3,
+} from 'three';
+import type { Octree } from 'three/examples/jsm/math/Octree.js';
+import { degToRad, getDayBounds, getSunPosition, type Observer } from './engine';
+import { addZonedDays, formatZonedDate, parseDay, zonedTimeToUtc } from './timezone';
+
+// Runs without WebGL or the DOM (the legend is optional), so analyses can be scripted and checked headlessly
+
+export interface SunSample {
+    // unit vector towards the sun in world space
+    direction: Vector3;
+    // hours of the range this sample stands for
+    weight: number;
+}
+
+export interface InsolationSettings {
+    // first and last day, YYYY-MM-DD in the observer's time zone
+    from: string;
+    to: string;
+    // days between sampled days, each standing for the skipped ones
+    dayStep: number;
+    // minutes between samples along each sampled day
+    minuteStep: number;
+}
+
+export interface InsolationProgress {
+    signal?: AbortSignal;
+    onProgress?: (fraction: number) => void;
+}
+
+// Direct sun hours at each vertex of each mesh
+export type InsolationResult = Map<Mesh, Float32Array>;
+
+// Lifts ray origins off their own surface so they do not hit it
+const SURFACE_OFFSET = 0.01;
+
+// Vertices handled between two yields to the event loop
+const CHUNK_SIZE = 500;
+
+const up = new Vector3(0, 1, 0);
+
+function readDay(value: string) {
+    const day = parseDay(value);
+    if (!day) {
+        throw new Error(`"${value}" is not a date like 2026-06-21`);
+    }
+    return day;
+}
+
+// World space direction towards the sun, rotated like the scene by the north offset (in degrees),
+// or null while the sun is below the horizon
+function getSunDirection(date: number | Date, observer: Observer, northOffset: number) {
+    const { x, y, z } = getSunPosition(date, observer, 1);
+    return y > 0 ? new Vector3(x, y, z).applyAxisAngle(up, degToRad(northOffset)).normalize() : null;
+}
+
+// Whether a ray from the surface point towards the sun gets past the model
+function isUnobstructed(position: Vector3, normal: Vector3, direction: Vector3, octree: Octree, ray = new Ray()) {
+    ray.origin.copy(position).addScaledVector(normal, SURFACE_OFFSET);
+    ray.direction.copy(direction);
+    return !octree.rayIntersect(ray);
+}
+
+// Daylight sun directions over the range
+function getSunSamples(observer: Observer, northOffset: number, { dayStep, from, minuteStep, to }: InsolationSettings) {
+    const first = zonedTimeToUtc({ ...readDay(from), hour: 12 }, observer.timeZone);
+    const last = zonedTimeToUtc({ ...readDay(to), hour: 12 }, observer.timeZone);
+    if (last < first) {
+        throw new Error('The last day must not be before the first');
+    }
+    const samples: SunSample[] = [];
+    const step = minuteStep * 60 * 1000;
+    for (let date = first; date <= last; date = addZonedDays(date, dayStep, observer.timeZone)) {
+        // the last sampled day only stands for the days left in the range
+        const next = addZonedDays(date, dayStep, observer.timeZone);
+        const days = next > last ? Math.round((last - date) / 86400000) + 1 : dayStep;
+        const { end, start } = getDayBounds(date, observer.timeZone);
+        for (let time = start + step / 2; time < end; time += step) {
+            const direction = getSunDirection(time, observer, northOffset);
+            if (direction) {
+                samples.push({ direction, weight: (days * minuteStep) / 60 });
+            }
+        }
+    }
+    return samples;
+}
+
+const getMeshes = (root: Object3D) => {
+    const meshes: Mesh[] = [];
+    root.traverse((child) => {
+        if ((child as Mesh).isMesh) {
+            meshes.push(child as Mesh);
+        }
+    });
+    return meshes;
+};
+
+// Hours of the samples in front of the surface whose rays towards the sun reach the sky unobstructed
+function getDirectHours(position: Vector3, normal: Vector3, octree: Octree, samples: SunSample[], ray = new Ray()) {
+    let hours = 0;
+    for (const { direction, weight } of samples) {
+        if (normal.dot(direction) > 0 && isUnobstructed(position, normal, direction, octree, ray)) {
+            hours += weight;
+        }
+    }
+    return hours;
+}
+
+// Direct sun hours of every vertex, yielding to the event loop between chunks so a page stays responsive
+async function computeInsolation(
+    root: Object3D,
+    octree: Octree,
+    samples: SunSample[],
+    { onProgress, signal }: InsolationProgress = {},
+): Promise<InsolationResult> {
+    signal?.throwIfAborted();
+    root.updateWorldMatrix(true, true);
+    const meshes = getMeshes(root);
+    const total = meshes.reduce((sum, mesh) => sum + mesh.geometry.attributes.position.count, 0);
+    const result: InsolationResult = new Map();
+    const position = new Vector3();
+    const normal = new Vector3();
+    const ray = new Ray();
+    let done = 0;
+    for (const mesh of meshes) {
+        const { geometry } = mesh;
+        if (!geometry.attributes.normal) {
+            geometry.computeVertexNormals();
+        }
+        const positions = geometry.attributes.position;
+        const normals = geometry.attributes.normal;
+        const normalMatrix = new Matrix3().getNormalMatrix(mesh.matrixWorld);
+        const hours = new Float32Array(positions.count);
+        for (let i = 0; i < positions.count; i++) {
+            position.fromBufferAttribute(positions, i).applyMatrix4(mesh.matrixWorld);
+            normal.fromBufferAttribute(normals, i).applyMatrix3(normalMatrix).normalize();
+            hours[i] = getDirectHours(position, normal, octree, samples, ray);
+            if (++done % CHUNK_SIZE === 0) {
+                onProgress?.(done / total);
+                await new Promise((resolve) => setTimeout(resolve));
+                signal?.throwIfAborted();
+            }
+        }
+        result.set(mesh, hours);
+    }
+    onProgress?.(1);
+    return result;
+}
+
+const getMaxHours = (result: InsolationResult) =>
+    Math.max(0, ...[...result.values()].map((hours) => hours.reduce((max, value) => Math.max(max, value), 0)));
+
+// Blue for no direct sun through green and yellow to red for the most
+const heatColor = (fraction: number, color = new Color()) => color.setHSL((1 - fraction) * 0.66, 1, 0.5);
+
+// Paints the hours as vertex colours on copies of the geometries, keeping the originals to restore
+class InsolationHeatmap {
+    result: InsolationResult;
+    maxHours: number;
+    material: MeshBasicMaterial;
+    originals: Map<Mesh, { geometry: BufferGeometry; material: Material | Material[] }>;
+    legend: HTMLElement | null;
+
+    constructor(result: InsolationResult, legend: HTMLElement | null = null) {
+        this.result = result;
+        this.maxHours = getMaxHours(result);
+        this.material = new MeshBasicMaterial({ vertexColors: true });
+        this.originals = new Map();
+        this.legend = legend;
+    }
+
+    get visible() {
+        return this.originals.size > 0;
+    }
+
+    show() {
+        if (this.visible) {
+            return;
+        }
+        const color = new Color();
+        for (const [mesh, hours] of this.result) {
+            this.originals.set(mesh, { geometry: mesh.geometry, material: mesh.material });
+            const colors = new Float32Array(hours.length * 3);
+            for (const [i, value] of hours.entries()) {
+                heatColor(this.maxHours > 0 ? value / this.maxHours : 0, color).toArray(colors, i * 3);
+            }
+            mesh.geometry = mesh.geometry.clone();
+            mesh.geometry.setAttribute('color', new BufferAttribute(colors, 3));
+            mesh.material = this.material;
+        }
+        this.updateLegend();
+    }
+
+    hide() {
+        for (const [mesh, { geometry, material }] of this.originals) {
+            mesh.geometry.dispose();
+            mesh.geometry = geometry;
+            mesh.material = material;
+        }
+        this.originals.clear();
+        this.updateLegend();
+    }
+
+    dispose() {
+        this.hide();
+        this.material.dispose();
+    }
+
+    updateLegend() {
+        if (!this.legend) {
+            return;
+        }
+        this.legend.hidden = !this.visible;
+        const stops = [0, 0.25, 0.5, 0.75, 1].map((stop) => `#${heatColor(stop).getHexString()} ${stop * 100}%`);
+        const title = document.createElement('div');
+        title.textContent = 'Direct sun hours';
+        const bar = document.createElement('div');
+        bar.className = 'insolation-bar';
+        bar.style.background = `linear-gradient(to right, ${stops.join(', ')})`;
+        const labels = document.createElement('div');
+        labels.className = 'insolation-labels';
+        for (const hours of [0, this.maxHours / 2, this.maxHours]) {
+            const label = document.createElement('span');
+            label.textContent = `${hours.toFixed(1)} h`;
+            labels.append(label);
+        }
+        this.legend.replaceChildren(title, bar, labels);
+    }
+}
+
+// Runs the analysis on the model loaded later by the world, for the location and north offset of the scene
+class InsolationAnalysis {
+    params: Observer & { northOffset: number };
+    settings: InsolationSettings;
+    showHeatmap: boolean;
+    status: string;
+    legend: HTMLElement | null;
+    model?: Object3D;
+    octree?: Octree;
+    heatmap?: InsolationHeatmap;
+    controller?: AbortController;
+
+    constructor(params: Observer & { northOffset: number }, legend: HTMLElement | null = null) {
+        const day = formatZonedDate(Date.now(), params.timeZone);
+        this.params = params;
+        this.settings = { dayStep: 1, from: day, minuteStep: 30, to: day };
+        this.showHeatmap = true;
+        this.status = 'Not run';
+        this.legend = legend;
+    }
+
+    setModel(model: Object3D, octree: Octree) {
+        this.model = model;
+        this.octree = octree;
+    }
+
+    async run() {
+        if (!this.model || !this.octree) {
+            this.status = 'Model still loading';
+            return;
+        }
+        this.cancel();
+        const controller = new AbortController();
+        this.controller = controller;
+        try {
+            const samples = getSunSamples(this.params, this.params.northOffset, this.settings);
+            // the previous heatmap comes off first so its colours are not analysed as the model
+            this.heatmap?.dispose();
+            this.heatmap = undefined;
+            const result = await computeInsolation(this.model, this.octree, samples, {
+                onProgress: (fraction) => {
+                    this.status = `Running ${Math.round(fraction * 100)}%`;
+                },
+                signal: controller.signal,
+            });
+            this.heatmap = new InsolationHeatmap(result, this.legend);
+            this.status = `Done, up to ${this.heatmap.maxHours.toFixed(1)} h`;
+            this.updateHeatmap();
+        } catch (error) {
+            this.status = controller.signal.aborted ? 'Cancelled' : (error as Error).message;
+        } finally {
+            if (this.controller === controller) {
+                this.controller = undefined;
+            }
+        }
+    }
+
+    cancel() {
+        this.controller?.abort();
+    }
+
+    updateHeatmap() {
+        if (this.showHeatmap) {
+            this.heatmap?.show();
+        } else {
+            this.heatmap?.hide();
+        }
+    }
+}
+
+export {
+    computeInsolation,
+    getDirectHours,
+    getSunDirection,
+    getSunSamples,
+    InsolationAnalysis,
+    InsolationHeatmap,
+    isUnobstructed,
+};
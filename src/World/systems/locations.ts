@@ -0,0 +1,71 @@
+import { type City, cities } from './cities';
+import { isValidTimeZone } from './timezone';
+
+export interface SavedLocation {
+    latitude: number;
+    longitude: number;
+    name: string;
+    timeZone: string;
+}
+
+const FAVOURITES_KEY = 'salat3d.favouriteLocations';
+
+const defaultLocation: SavedLocation = {
+    latitude: -23.029396,
+    longitude: -46.974293,
+    name: 'Vinhedo, BR',
+    timeZone: 'America/Sao_Paulo',
+};
+
+const formatCityLabel = (city: City) => `${city.name}, ${city.country}`;
+
+// Case and accent insensitive, so "sao" finds "São Paulo"
+const normalize = (text: string) =>
+    text
+        .normalize('NFD')
+        .replace(/\p{Diacritic}/gu, '')
+        .toLowerCase()
+        .trim();
+
+// Cities whose name starts with the query come first, then other name or country matches
+function searchCities(query: string, limit = 25) {
+    const needle = normalize(query);
+    const sorted = [...cities].sort((a, b) => a.name.localeCompare(b.name));
+    if (!needle) {
+        return sorted.slice(0, limit);
+    }
+    const prefixMatches = sorted.filter((city) => normalize(city.name).startsWith(needle));
+    const otherMatches = sorted.filter(
+        (city) =>
+            !prefixMatches.includes(city) &&
+            (normalize(city.name).includes(needle) || normalize(city.country) === needle),
+    );
+    return [...prefixMatches, ...otherMatches].slice(0, limit);
+}
+
+const isSavedLocation = (value: unknown): value is SavedLocation => {
+    const location = value as SavedLocation;
+    return (
+        typeof location?.name === 'string' &&
+        Number.isFinite(location.latitude) &&
+        Number.isFinite(location.longitude) &&
+        typeof location.timeZone === 'string' &&
+        isValidTimeZone(location.timeZone)
+    );
+};
+
+// Corrupt or foreign entries in storage are dropped instead of breaking the GUI
+function loadFavouriteLocations(): SavedLocation[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(FAVOURITES_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored.filter(isSavedLocation) : [];
+    } catch {
+        return [];
+    }
+}
+
+function saveFavouriteLocations(locations: SavedLocation[]) {
+    localStorage.setItem(FAVOURITES_KEY, JSON.stringify(locations));
+}
+
+export { defaultLocation, formatCityLabel, loadFavouriteLocations, saveFavouriteLocations, searchCities };
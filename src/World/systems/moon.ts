@@ -0,0 +1,82 @@
+import { getMoonPosition as getMoonAltitudeAzimuth, getMoonIllumination } from 'suncalc';
+import {
+    DAY_PATH_STEP,
+    type GeoLocation,
+    getDayBounds,
+    type Observer,
+    type PathPoint,
+    type SunPosition,
+    toCartesian,
+} from './engine';
+import { findAltitudeCrossings } from './twilight';
+
+export interface MoonPosition extends SunPosition {
+    // kilometres from the centre of the Earth
+    distance: number;
+}
+
+export interface MoonPhase {
+    // illuminated fraction of the disc, 0 to 1
+    fraction: number;
+    name: string;
+    // 0 new moon, 0.25 first quarter, 0.5 full moon, 0.75 last quarter
+    phase: number;
+}
+
+// Altitude of the moon's centre when its upper limb touches the horizon, as used by suncalc
+const MOONRISE_ALTITUDE = 0.133;
+
+const phaseNames = [
+    'New moon',
+    'Waxing crescent',
+    'First quarter',
+    'Waxing gibbous',
+    'Full moon',
+    'Waning gibbous',
+    'Last quarter',
+    'Waning crescent',
+];
+
+function getMoonPosition(date: number | Date, location: GeoLocation, radius: number): MoonPosition {
+    const { altitude, azimuth, distance } = getMoonAltitudeAzimuth(
+        new Date(date),
+        location.latitude,
+        location.longitude,
+    );
+    return { altitude, azimuth, distance, ...toCartesian(altitude, azimuth, radius) };
+}
+
+function getMoonDayPath(date: number | Date, observer: Observer, radius: number, step = DAY_PATH_STEP) {
+    const { start, end } = getDayBounds(date, observer.timeZone);
+    const points: PathPoint[] = [];
+    for (let time = start; time < end; time += step) {
+        points.push({ ...getMoonPosition(time, observer, radius), time });
+    }
+    points.push({ ...getMoonPosition(end, observer, radius), time: end });
+    return points;
+}
+
+function getMoonPhase(date: number | Date): MoonPhase {
+    const { fraction, phase } = getMoonIllumination(new Date(date));
+    return { fraction, name: phaseNames[Math.round(phase * 8) % 8], phase };
+}
+
+// Moonrise and moonset of the local day; about once a month the moon does not rise (or set) on a given day,
+// and at high latitudes it can stay up or down all day, so either may be null
+function getMoonTimes(date: number | Date, observer: Observer) {
+    const { start, end } = getDayBounds(date, observer.timeZone);
+    const crossings = findAltitudeCrossings(
+        start,
+        end,
+        observer.latitude,
+        observer.longitude,
+        MOONRISE_ALTITUDE,
+        getMoonAltitudeAzimuth,
+    );
+    return {
+        moonrise: crossings.find((crossing) => crossing.rising)?.date ?? null,
+        moonset: crossings.find((crossing) => !crossing.rising)?.date ?? null,
+    };
+}
+
+export { getMoonDayPath, getMoonPhase, getMoonPosition, getMoonTimes };
@@ -8,6 +8,7 @@ function createPlayer(camera: Camera, geometry: Object3D) {
 
     const worldOctree = new Octree();
     const playerCollider = new Capsule(new Vector3(0, 1.35, 15), new Vector3(0, 2.8, 15), 0.25) as Capsule & {
+        octree: Octree;
         tick: (delta: number) => void;
     };
 
@@ -129,6 +130,8 @@ function createPlayer(camera: Camera, geometry: Object3D) {
         }
     }
     worldOctree.fromGraphNode(geometry);
+    // shared with the sunlight analysis, which raycasts against the same model
+    playerCollider.octree = worldOctree;
 
     function teleportPlayerIfOob() {
         if (camera.position.y <= -25) {
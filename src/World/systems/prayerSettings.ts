@@ -0,0 +1,103 @@
+import { CalculationMethod, type CalculationParameters, HighLatitudeRule, Madhab, Rounding } from 'adhan';
+
+export type CalculationMethodName = keyof typeof CalculationMethod;
+export type MadhabName = (typeof Madhab)[keyof typeof Madhab];
+export type HighLatitudeRuleName = 'middleofthenight' | 'seventhofthenight' | 'twilightangle';
+export type RoundingName = (typeof Rounding)[keyof typeof Rounding];
+
+const prayerNames = ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'] as const;
+
+export type PrayerName = (typeof prayerNames)[number];
+export type PrayerAdjustments = Record<PrayerName, number>;
+
+export interface PrayerSettings {
+    calculationMethod: CalculationMethodName;
+    fajrAngle: number;
+    ishaAngle: number;
+    ishaInterval: number;
+    madhab: MadhabName;
+    highLatitudeRule: HighLatitudeRuleName;
+    rounding: RoundingName;
+    prayerAdjustments: PrayerAdjustments;
+}
+
+const calculationMethodOptions: Record<string, CalculationMethodName> = {
+    'Custom (angles below)': 'Other',
+    Dubai: 'Dubai',
+    Egyptian: 'Egyptian',
+    Karachi: 'Karachi',
+    Kuwait: 'Kuwait',
+    'Moonsighting Committee': 'MoonsightingCommittee',
+    'Muslim World League': 'MuslimWorldLeague',
+    'North America (ISNA)': 'NorthAmerica',
+    Qatar: 'Qatar',
+    Singapore: 'Singapore',
+    Tehran: 'Tehran',
+    Turkey: 'Turkey',
+    'Umm al-Qura': 'UmmAlQura',
+};
+
+const madhabOptions: Record<string, MadhabName> = {
+    Hanafi: Madhab.Hanafi,
+    Shafi: Madhab.Shafi,
+};
+
+const highLatitudeRuleOptions: Record<string, HighLatitudeRuleName> = {
+    'Middle of the night': HighLatitudeRule.MiddleOfTheNight,
+    'Seventh of the night': HighLatitudeRule.SeventhOfTheNight,
+    'Twilight angle': HighLatitudeRule.TwilightAngle,
+};
+
+const roundingOptions: Record<string, RoundingName> = {
+    Nearest: Rounding.Nearest,
+    None: Rounding.None,
+    Up: Rounding.Up,
+};
+
+// Copies the angles and interval of the selected method into the editable settings
+function applyCalculationMethod(settings: PrayerSettings) {
+    if (settings.calculationMethod === 'Other') {
+        return;
+    }
+    const preset = CalculationMethod[settings.calculationMethod]();
+    settings.fajrAngle = preset.fajrAngle;
+    settings.ishaAngle = preset.ishaAngle;
+    settings.ishaInterval = preset.ishaInterval;
+}
+
+function pickPrayerSettings(settings: PrayerSettings): PrayerSettings {
+    return {
+        calculationMethod: settings.calculationMethod,
+        fajrAngle: settings.fajrAngle,
+        highLatitudeRule: settings.highLatitudeRule,
+        ishaAngle: settings.ishaAngle,
+        ishaInterval: settings.ishaInterval,
+        madhab: settings.madhab,
+        prayerAdjustments: { ...settings.prayerAdjustments },
+        rounding: settings.rounding,
+    };
+}
+
+// Single entry point for every prayer time computation in the app
+function createCalculationParameters(settings: PrayerSettings): CalculationParameters {
+    const calculationParameters = CalculationMethod[settings.calculationMethod]();
+    calculationParameters.fajrAngle = settings.fajrAngle;
+    calculationParameters.ishaAngle = settings.ishaAngle;
+    calculationParameters.ishaInterval = settings.ishaInterval;
+    calculationParameters.madhab = settings.madhab;
+    calculationParameters.highLatitudeRule = settings.highLatitudeRule;
+    calculationParameters.rounding = settings.rounding;
+    calculationParameters.adjustments = { ...settings.prayerAdjustments };
+    return calculationParameters;
+}
+
+export {
+    applyCalculationMethod,
+    calculationMethodOptions,
+    createCalculationParameters,
+    highLatitudeRuleOptions,
+    madhabOptions,
+    pickPrayerSettings,
+    prayerNames,
+    roundingOptions,
+};
@@ -0,0 +1,441 @@
+import {
+    BufferGeometry,
+    type Camera,
+    Group,
+    Line,
+    LineBasicMaterial,
+    MathUtils,
+    Matrix3,
+    Mesh,
+    MeshBasicMaterial,
+    type Object3D,
+    Raycaster,
+    SphereGeometry,
+    Vector2,
+    Vector3,
+} from 'three';
+import type { Octree } from 'three/examples/jsm/math/Octree.js';
+import { downloadFile } from './download';
+import { getDayBounds, type Observer } from './engine';
+import { getDirectHours, getSunDirection, getSunSamples, type InsolationProgress, isUnobstructed } from './insolation';
+import type { SunPath } from './SunPath';
+import { formatHours, formatZonedDate, formatZonedTime, getDaysInYear, getZonedParts } from './timezone';
+
+export type ProbeState = 'night' | 'shade' | 'sun';
+
+export interface Probe {
+    id: number;
+    name: string;
+    // world space surface point and outward unit normal
+    point: Vector3;
+    normal: Vector3;
+    // pinned probes stay when a new point is clicked
+    pinned: boolean;
+    marker: Object3D;
+}
+
+export interface ProbeYearDay {
+    date: string;
+    hours: number;
+}
+
+const DAY_SAMPLE_STEP = 10 * 60 * 1000;
+
+const YEAR_MINUTE_STEP = 30;
+
+// Days scanned between two yields to the event loop
+const YEAR_CHUNK_DAYS = 14;
+
+// Pointer travel (in pixels) below which a press and release count as a click rather than an orbit
+const CLICK_TOLERANCE = 4;
+
+const stateColors: Record<ProbeState, string> = {
+    night: '#1b2440',
+    shade: '#7f8c8d',
+    sun: '#f4d03f',
+};
+
+// Incidence is the angle between the sun and the surface normal, 0° for sun straight onto the surface;
+// above 90° the sun is behind the surface
+function getProbeState(probe: Probe, date: number, observer: Observer, northOffset: number, octree: Octree) {
+    const direction = getSunDirection(date, observer, northOffset);
+    if (!direction) {
+        return { incidence: Number.NaN, state: 'night' as ProbeState };
+    }
+    const cosine = probe.normal.dot(direction);
+    const incidence = MathUtils.radToDeg(Math.acos(MathUtils.clamp(cosine, -1, 1)));
+    const lit = cosine > 0 && isUnobstructed(probe.point, probe.normal, direction, octree);
+    return { incidence, state: (lit ? 'sun' : 'shade') as ProbeState };
+}
+
+function getProbeDay(probe: Probe, date: number, observer: Observer, northOffset: number, octree: Octree) {
+    const { end, start } = getDayBounds(date, observer.timeZone);
+    const states: { state: ProbeState; time: number }[] = [];
+    for (let time = start + DAY_SAMPLE_STEP / 2; time < end; time += DAY_SAMPLE_STEP) {
+        states.push({ state: getProbeState(probe, time, observer, northOffset, octree).state, time });
+    }
+    return states;
+}
+
+// Direct sun hours of every day of the year, a ray cast per daylight sample; yields to the event loop between
+// chunks of days like computeInsolation, so the page stays responsive
+async function getProbeYear(
+    probe: Probe,
+    year: number,
+    observer: Observer,
+    northOffset: number,
+    octree: Octree,
+    { onProgress, signal }: InsolationProgress = {},
+) {
+    signal?.throwIfAborted();
+    const count = getDaysInYear(year);
+    const days: ProbeYearDay[] = [];
+    for (let i = 0; i < count; i++) {
+        const date = new Date(Date.UTC(year, 0, i + 1)).toISOString().slice(0, 10);
+        const samples = getSunSamples(observer, northOffset, {
+            dayStep: 1,
+            from: date,
+            minuteStep: YEAR_MINUTE_STEP,
+            to: date,
+        });
+        days.push({ date, hours: getDirectHours(probe.point, probe.normal, octree, samples) });
+        if ((i + 1) % YEAR_CHUNK_DAYS === 0) {
+            onProgress?.((i + 1) / count);
+            await new Promise((resolve) => setTimeout(resolve));
+            signal?.throwIfAborted();
+        }
+    }
+    return days;
+}
+
+function createMarker(point: Vector3, normal: Vector3) {
+    const marker = new Group();
+    const material = new MeshBasicMaterial({ color: '#e74c3c', depthTest: false });
+    const dot = new Mesh(new SphereGeometry(0.12), material);
+    const stem = new Line(
+        new BufferGeometry().setFromPoints([new Vector3(), normal.clone().multiplyScalar(1.2)]),
+        new LineBasicMaterial({ color: '#e74c3c', depthTest: false }),
+    );
+    marker.add(dot, stem);
+    marker.position.copy(point);
+    marker.renderOrder = 1;
+    return marker;
+}
+
+// Clicked surface points with their sun exposure now, over the simulated day and over the year
+class PointProbes {
+    sunPath: SunPath;
+    base: Object3D;
+    getCamera: () => Camera;
+    model?: Object3D;
+    octree?: Octree;
+    group: Group;
+    probes: Probe[];
+    selected?: Probe;
+    // clicks only place probes while enabled, so orbiting the camera stays undisturbed
+    enabled: boolean;
+    panel: HTMLElement | null;
+    statusText: HTMLElement;
+    dayCanvas: HTMLCanvasElement;
+    yearCanvas: HTMLCanvasElement;
+    summaryText: HTMLElement;
+    onChange?: () => void;
+    nextId: number;
+    statusKey: string;
+    dayKey: string;
+    yearKey: string;
+    dayStates: { state: ProbeState; time: number }[];
+    dayBounds: { end: number; start: number };
+    // pixel column of the day strip's playhead, the strip is only redrawn when it moves
+    dayPlayhead: number;
+    yearDays: ProbeYearDay[];
+    yearController?: AbortController;
+    daySummary: string;
+    yearSummary: string;
+
+    constructor(
+        sunPath: SunPath,
+        base: Object3D,
+        getCamera: () => Camera,
+        element: HTMLElement,
+        panel: HTMLElement | null = null,
+    ) {
+        this.sunPath = sunPath;
+        this.base = base;
+        this.getCamera = getCamera;
+        this.group = new Group();
+        this.group.name = 'probes';
+        this.probes = [];
+        this.enabled = false;
+        this.panel = panel;
+        this.nextId = 1;
+        this.statusKey = '';
+        this.dayKey = '';
+        this.yearKey = '';
+        this.dayStates = [];
+        this.dayBounds = { end: 0, start: 0 };
+        this.dayPlayhead = -1;
+        this.yearDays = [];
+        this.daySummary = '';
+        this.yearSummary = '';
+
+        const pressed = new Vector2();
+        element.addEventListener('pointerdown', (event) => pressed.set(event.clientX, event.clientY));
+        element.addEventListener('pointerup', (event) => {
+            if (this.enabled && pressed.distanceTo(new Vector2(event.clientX, event.clientY)) < CLICK_TOLERANCE) {
+                this.pick(event, element);
+            }
+        });
+
+        this.statusText = document.createElement('div');
+        this.dayCanvas = Object.assign(document.createElement('canvas'), { height: 14, width: 288 });
+        this.yearCanvas = Object.assign(document.createElement('canvas'), { height: 48, width: 366 });
+        this.summaryText = document.createElement('div');
+        this.summaryText.className = 'probe-summary';
+        this.panel?.append(this.statusText, this.dayCanvas, this.yearCanvas, this.summaryText);
+        sunPath.store.subscribe(({ date, topics }) => {
+            if (date || topics.has('location')) {
+                this.update();
+            }
+        });
+    }
+
+    get observer() {
+        return this.sunPath.params;
+    }
+
+    // The model arrives after loading; until then there is nothing to test the sun rays against
+    setModel(model: Object3D, octree: Octree) {
+        this.model = model;
+        this.octree = octree;
+        this.update();
+    }
+
+    pick(event: PointerEvent, element: HTMLElement) {
+        const bounds = element.getBoundingClientRect();
+        const pointer = new Vector2(
+            ((event.clientX - bounds.left) / bounds.width) * 2 - 1,
+            -((event.clientY - bounds.top) / bounds.height) * 2 + 1,
+        );
+        const raycaster = new Raycaster();
+        raycaster.setFromCamera(pointer, this.getCamera());
+        const targets = this.model ? [this.model, this.base] : [this.base];
+        const hit = raycaster.intersectObjects(targets, true).find((h) => h.face && (h.object as Mesh).isMesh);
+        if (!hit?.face) {
+            return;
+        }
+        const normal = hit.face.normal
+            .clone()
+            .applyMatrix3(new Matrix3().getNormalMatrix(hit.object.matrixWorld))
+            .normalize();
+        // double sided surfaces can be hit from behind
+        if (normal.dot(raycaster.ray.direction) > 0) {
+            normal.negate();
+        }
+        this.addProbe(hit.point, normal);
+    }
+
+    // A new probe replaces the unpinned ones
+    addProbe(point: Vector3, normal: Vector3) {
+        for (const probe of this.probes.filter((p) => !p.pinned)) {
+            this.removeProbe(probe, false);
+        }
+        const id = this.nextId++;
+        const probe: Probe = {
+            id,
+            marker: createMarker(point, normal),
+            name: `Probe ${id}`,
+            normal: normal.clone(),
+            pinned: false,
+            point: point.clone(),
+        };
+        this.probes.push(probe);
+        this.group.add(probe.marker);
+        this.select(probe);
+        this.onChange?.();
+        return probe;
+    }
+
+    removeProbe(probe: Probe, notify = true) {
+        this.probes = this.probes.filter((p) => p !== probe);
+        this.group.remove(probe.marker);
+        probe.marker.traverse((child) => {
+            if ((child as Mesh).isMesh || (child as Line).isLine) {
+                (child as Mesh).geometry.dispose();
+                ((child as Mesh).material as MeshBasicMaterial).dispose();
+            }
+        });
+        if (this.selected === probe) {
+            this.select(this.probes[this.probes.length - 1]);
+        }
+        if (notify) {
+            this.onChange?.();
+        }
+    }
+
+    select(probe?: Probe) {
+        this.selected = probe;
+        this.yearController?.abort();
+        this.statusKey = '';
+        this.dayKey = '';
+        this.yearKey = '';
+        this.update();
+    }
+
+    // The scene params keep changing while the year is scanned, so it works on a copy of the place
+    getPlace() {
+        const { latitude, longitude, northOffset, timeZone } = this.sunPath.params;
+        return { northOffset, observer: { latitude, longitude, timeZone } };
+    }
+
+    async exportCSV() {
+        if (!this.octree || this.probes.length === 0) {
+            return;
+        }
+        const { northOffset, observer } = this.getPlace();
+        const { year } = getZonedParts(this.sunPath.date, observer.timeZone);
+        const rows = ['probe,x,y,z,normalX,normalY,normalZ,date,directHours'];
+        for (const probe of this.probes) {
+            const position = [...probe.point.toArray(), ...probe.normal.toArray()].map((value) => value.toFixed(3));
+            for (const { date, hours } of await getProbeYear(probe, year, observer, northOffset, this.octree)) {
+                rows.push([probe.name, ...position, date, hours.toFixed(2)].join(','));
+            }
+        }
+        downloadFile(`salat3d-probes-${year}.csv`, rows.join('\n'), 'text/csv');
+    }
+
+    // Replaces the year series in the background; a newer request or another probe cancels it
+    async loadYear(probe: Probe, year: number, octree: Octree) {
+        this.yearController?.abort();
+        const controller = new AbortController();
+        this.yearController = controller;
+        const { northOffset, observer } = this.getPlace();
+        const showSummary = (yearSummary: string) => {
+            this.yearSummary = yearSummary;
+            this.summaryText.textContent = `${this.daySummary}\n${this.yearSummary}`;
+        };
+        this.yearDays = [];
+        this.drawYear(this.yearDays);
+        showSummary(`${year}: computing`);
+        try {
+            this.yearDays = await getProbeYear(probe, year, observer, northOffset, octree, {
+                onProgress: (fraction) => showSummary(`${year}: computing ${Math.round(fraction * 100)}%`),
+                signal: controller.signal,
+            });
+            const total = this.yearDays.reduce((sum, day) => sum + day.hours, 0);
+            showSummary(`${year}: ${Math.round(total)} h of direct sun`);
+            this.drawYear(this.yearDays);
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                showSummary(`${year}: ${(error as Error).message}`);
+            }
+        } finally {
+            if (this.yearController === controller) {
+                this.yearController = undefined;
+            }
+        }
+    }
+
+    drawDay(states: { state: ProbeState; time: number }[]) {
+        const context = this.dayCanvas.getContext('2d');
+        if (!context) {
+            return;
+        }
+        const { width, height } = this.dayCanvas;
+        const cell = width / states.length;
+        for (const [i, { state }] of states.entries()) {
+            context.fillStyle = stateColors[state];
+            context.fillRect(i * cell, 0, Math.ceil(cell), height);
+        }
+        context.fillStyle = 'white';
+        context.fillRect(this.dayPlayhead - 1, 0, 2, height);
+    }
+
+    drawYear(days: ProbeYearDay[]) {
+        const context = this.yearCanvas.getContext('2d');
+        if (!context) {
+            return;
+        }
+        const { width, height } = this.yearCanvas;
+        context.clearRect(0, 0, width, height);
+        if (days.length === 0) {
+            return;
+        }
+        const max = Math.max(...days.map((day) => day.hours), 1);
+        context.fillStyle = stateColors.sun;
+        const bar = width / days.length;
+        for (const [i, { hours }] of days.entries()) {
+            context.fillRect(i * bar, height - (hours / max) * height, Math.ceil(bar), (hours / max) * height);
+        }
+        const today = formatZonedDate(this.sunPath.date, this.observer.timeZone);
+        const index = days.findIndex((day) => day.date === today);
+        context.fillStyle = 'white';
+        context.fillRect(index * bar, 0, 1, height);
+    }
+
+    // Day and year series are recomputed when the probe, place, day or year changes, the year in the background;
+    // the day strip is redrawn when its playhead moves a pixel and the year chart when the day changes
+    update() {
+        const probe = this.selected;
+        if (this.panel) {
+            this.panel.hidden = !probe;
+        }
+        if (!probe || !this.octree || !this.panel) {
+            return;
+        }
+        const { date, params } = this.sunPath;
+        const { latitude, longitude, northOffset, timeZone } = params;
+        const place = JSON.stringify([probe.id, latitude, longitude, northOffset, timeZone]);
+        const statusKey = `${place}${probe.pinned}${date}`;
+        if (statusKey === this.statusKey) {
+            return;
+        }
+        this.statusKey = statusKey;
+
+        const calendarDay = formatZonedDate(date, timeZone);
+        const { year } = getZonedParts(date, timeZone);
+        if (`${place}${year}` !== this.yearKey) {
+            this.yearKey = `${place}${year}`;
+            this.loadYear(probe, year, this.octree);
+        }
+
+        let dayChanged = false;
+        if (`${place}${calendarDay}` !== this.dayKey) {
+            this.dayKey = `${place}${calendarDay}`;
+            dayChanged = true;
+            this.dayBounds = getDayBounds(date, timeZone);
+            this.dayStates = getProbeDay(probe, date, params, northOffset, this.octree);
+            const sunlit = this.dayStates.filter(({ state }) => state === 'sun');
+            const hours = (sunlit.length * DAY_SAMPLE_STEP) / 3600000;
+            const first = sunlit[0]?.time;
+            const last = sunlit[sunlit.length - 1]?.time;
+            const span =
+                sunlit.length > 0
+                    ? ` between ${formatZonedTime(first, timeZone)} and ${formatZonedTime(last, timeZone)}`
+                    : '';
+            this.daySummary = `${calendarDay}: ${formatHours(hours)} of direct sun${span}`;
+        }
+
+        const { incidence, state } = getProbeState(probe, date, params, northOffset, this.octree);
+        const descriptions: Record<ProbeState, string> = {
+            night: 'Sun below the horizon',
+            shade: incidence > 90 ? 'In shade, sun behind the surface' : 'In shade, sun blocked',
+            sun: 'In direct sun',
+        };
+        const angle = Number.isNaN(incidence) ? '' : `, incidence ${incidence.toFixed(1)}°`;
+        this.statusText.textContent = `${probe.name}${probe.pinned ? ' (pinned)' : ''}: ${descriptions[state]}${angle}`;
+        this.summaryText.textContent = `${this.daySummary}\n${this.yearSummary}`;
+
+        const { end, start } = this.dayBounds;
+        const playhead = Math.round(((date - start) / (end - start)) * this.dayCanvas.width);
+        if (dayChanged || playhead !== this.dayPlayhead) {
+            this.dayPlayhead = playhead;
+            this.drawDay(this.dayStates);
+        }
+        if (dayChanged) {
+            this.drawYear(this.yearDays);
+        }
+    }
+}
+
+export { getProbeDay, getProbeState, getProbeYear, PointProbes };
@@ -0,0 +1,51 @@
+import { Coordinates, Qibla } from 'adhan';
+import { getPosition, getTimes } from 'suncalc';
+import { MathUtils } from 'three';
+import { getDistanceKm } from './cities';
+import { getDaysInYear } from './timezone';
+
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+const KAABA: GeoPoint = { latitude: 21.4225241, longitude: 39.8261818 };
+const KAABA_ANTIPODE: GeoPoint = { latitude: -KAABA.latitude, longitude: KAABA.longitude - 180 };
+
+function getQiblaBearing(latitude: number, longitude: number) {
+    return Qibla(new Coordinates(latitude, longitude));
+}
+
+function getDistanceToKaaba(latitude: number, longitude: number) {
+    return getDistanceKm(latitude, longitude, KAABA.latitude, KAABA.longitude);
+}
+
+// Solar noons of the year at which the sun passes (almost) exactly through the zenith of the given point
+function getZenithTransits(year: number, point: GeoPoint) {
+    const days = getDaysInYear(year);
+    const noons: Date[] = [];
+    const altitudes: number[] = [];
+    for (let d = -1; d <= days; d++) {
+        const { solarNoon } = getTimes(new Date(Date.UTC(year, 0, 1 + d, 12)), point.latitude, point.longitude);
+        noons.push(solarNoon);
+        altitudes.push(getPosition(solarNoon, point.latitude, point.longitude).altitude);
+    }
+    const transits: Date[] = [];
+    for (let i = 1; i < noons.length - 1; i++) {
+        const isPeak = altitudes[i] >= altitudes[i - 1] && altitudes[i] > altitudes[i + 1];
+        if (isPeak && altitudes[i] > MathUtils.degToRad(89) && noons[i].getUTCFullYear() === year) {
+            transits.push(noons[i]);
+        }
+    }
+    return transits;
+}
+
+// At these moments every sunlit shadow on Earth points away from (or towards, for the antipode) the Kaaba
+function getKaabaTransits(year: number) {
+    return {
+        antipode: getZenithTransits(year, KAABA_ANTIPODE),
+        kaaba: getZenithTransits(year, KAABA),
+    };
+}
+
+export { KAABA, getDistanceToKaaba, getKaabaTransits, getQiblaBearing };
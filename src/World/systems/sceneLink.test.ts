@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import { decodeSceneLink, encodeSceneLink } from './sceneLink';
+import type { SceneState } from './sceneState';
+
+describe('sceneLink', () => {
+    describe('encodeSceneLink', () => {
+        it('should round trip a full scene state through decodeSceneLink', () => {
+            const state: SceneState = {
+                camera: { mode: 'bird', position: [1.5, 20, -3], target: [0, 0, 0] },
+                light: { ambientIntensity: 1.2, castShadow: true },
+                params: {
+                    calculationMethod: 'MuslimWorldLeague',
+                    latitude: 51.5074,
+                    longitude: -0.1278,
+                    prayerAdjustments: { asr: 0, dhuhr: 2, fajr: -1, isha: 0, maghrib: 3, sunrise: 0 },
+                    showMoon: false,
+                    timeZone: 'Europe/London',
+                },
+                sky: { turbidity: 4 },
+                time: Date.parse('2026-03-29T00:30:00Z'),
+                visibility: { qibla: false },
+            };
+            const { rejected, state: decoded } = decodeSceneLink(`#${encodeSceneLink(state)}`);
+            expect(rejected).toEqual([]);
+            expect(decoded).toEqual(state);
+        });
+
+        it('should round numbers to six decimals and leave out undefined values', () => {
+            const search = encodeSceneLink({
+                light: {},
+                params: { latitude: 21.422487123, longitude: undefined },
+                sky: {},
+                visibility: {},
+            });
+            expect(search).toBe('latitude=21.422487');
+        });
+    });
+
+    describe('decodeSceneLink', () => {
+        it('should give an empty state for an empty hash', () => {
+            expect(decodeSceneLink('')).toEqual({
+                rejected: [],
+                state: { light: {}, params: {}, sky: {}, visibility: {} },
+            });
+        });
+
+        it('should keep the last value of a repeated key', () => {
+            const { rejected, state } = decodeSceneLink('#latitude=10&latitude=20');
+            expect(rejected).toEqual([]);
+            expect(state.params.latitude).toBe(20);
+        });
+
+        it('should reject a dotted key below a plain value instead of throwing', () => {
+            const { rejected, state } = decodeSceneLink('#latitude=10&latitude.x=2&longitude=5');
+            expect(rejected).toEqual(['latitude.x']);
+            expect(state.params).toEqual({ latitude: 10, longitude: 5 });
+        });
+
+        it('should reject a dotted key below a plain group value instead of throwing', () => {
+            const { rejected, state } = decodeSceneLink('#camera=1&camera.mode=bird');
+            expect(rejected).toContain('camera.mode');
+            expect(state.camera).toBeUndefined();
+        });
+
+        it('should reject unknown keys and ignore keys reaching the prototype', () => {
+            const { rejected, state } = decodeSceneLink('#colour=red&sky.glow=1&__proto__.latitude=1&latitude=1');
+            expect(rejected).toEqual(['colour', 'sky.glow']);
+            expect(state.params).toEqual({ latitude: 1 });
+            expect(({} as Record<string, unknown>).latitude).toBeUndefined();
+        });
+
+        it('should reject out of range numbers and keep the valid ones', () => {
+            const { rejected, state } = decodeSceneLink('#latitude=91&longitude=-180&fajrAngle=abc&sky.exposure=-1');
+            expect(rejected).toEqual(['latitude', 'fajrAngle', 'sky.exposure']);
+            expect(state.params).toEqual({ longitude: -180 });
+            expect(state.sky).toEqual({});
+        });
+
+        it('should reject an invalid date, time zone or option', () => {
+            const { rejected, state } = decodeSceneLink('#time=2026-13-45&timeZone=Mars/Olympus&madhab=other');
+            expect(rejected).toEqual(['timeZone', 'madhab', 'time']);
+            expect(state.time).toBeUndefined();
+            expect(state.params).toEqual({});
+        });
+
+        it('should reject a camera missing its position', () => {
+            const { rejected, state } = decodeSceneLink('#camera.mode=bird&camera.target=0,0,0');
+            expect(rejected).toEqual(['camera']);
+            expect(state.camera).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import type { SceneStore } from './SceneStore';
+import { isRecord, type SceneState, sanitizeSceneState } from './sceneState';
+
+// milliseconds between a change and the rewrite of the hash, changes in between are written together
+const UPDATE_DELAY = 1000;
+
+const groupNames = ['camera', 'light', 'sky', 'visibility'];
+
+// Keys that would reach Object.prototype when the dotted path is rebuilt
+const unsafeKeys = ['__proto__', 'constructor', 'prototype'];
+
+const formatValue = (value: unknown): string => {
+    if (typeof value === 'number') {
+        return String(Number(value.toFixed(6)));
+    }
+    if (Array.isArray(value)) {
+        return value.map(formatValue).join(',');
+    }
+    return String(value);
+};
+
+// Nested objects become dotted keys; params sit at the top level to keep links short
+function flatten(values: Record<string, unknown>, prefix: string, search: URLSearchParams) {
+    for (const [key, value] of Object.entries(values)) {
+        if (isRecord(value)) {
+            flatten(value, `${prefix}${key}.`, search);
+        } else if (value !== undefined) {
+            search.set(`${prefix}${key}`, formatValue(value));
+        }
+    }
+}
+
+function encodeSceneLink({ camera, light, params, sky, time, visibility }: SceneState) {
+    const search = new URLSearchParams();
+    if (time !== undefined) {
+        search.set('time', new Date(time).toISOString());
+    }
+    flatten({ ...params, camera, light, sky, visibility }, '', search);
+    return search.toString();
+}
+
+// Walks the dotted path down from the root, creating the groups on the way; undefined when the path runs into a
+// plain value, as when a key is given both on its own and with a sub-key
+function findParent(root: Record<string, unknown>, path: string[]) {
+    let target = root;
+    for (const part of path) {
+        target[part] ??= {};
+        if (typeof target[part] !== 'object') {
+            return undefined;
+        }
+        target = target[part] as Record<string, unknown>;
+    }
+    return target;
+}
+
+function decodeSceneLink(hash: string) {
+    const params: Record<string, unknown> = {};
+    const state: Record<string, unknown> = { params };
+    const rejected: string[] = [];
+    for (const [key, value] of new URLSearchParams(hash.replace(/^#/, ''))) {
+        if (key === 'time') {
+            state.time = value;
+            continue;
+        }
+        const path = key.split('.');
+        if (path.some((part) => unsafeKeys.includes(part))) {
+            continue;
+        }
+        const target = findParent(groupNames.includes(path[0]) ? state : params, path.slice(0, -1));
+        if (target) {
+            target[path[path.length - 1]] = value;
+        } else {
+            rejected.push(key);
+        }
+    }
+    const sanitized = sanitizeSceneState(state);
+    return { rejected: [...rejected, ...sanitized.rejected], state: sanitized.state };
+}
+
+// Rewrites the hash shortly after the store changes, without adding history entries; the returned function asks
+// for a rewrite after changes outside the store (camera, lights, sky). Edits to the hash by hand reload the page so
+// the new state gets restored
+function createSceneLinkUpdater(store: SceneStore, getState: () => SceneState) {
+    let pending = false;
+    const update = () => {
+        pending = false;
+        const hash = `#${encodeSceneLink(getState())}`;
+        if (hash !== window.location.hash) {
+            history.replaceState(null, '', hash);
+        }
+    };
+    const schedule = () => {
+        if (!pending) {
+            pending = true;
+            setTimeout(update, UPDATE_DELAY);
+        }
+    };
+    store.subscribe(schedule);
+    window.addEventListener('hashchange', () => window.location.reload());
+    return schedule;
+}
+
+export { createSceneLinkUpdater, decodeSceneLink, encodeSceneLink };
@@ -0,0 +1,267 @@
+import type { Vector3Tuple } from 'three';
+import type { SkyControl } from './DynamicSky';
+import { analemmaTimeBasisOptions } from './engine';
+import { hijriCalendarOptions } from './hijri';
+import {
+    calculationMethodOptions,
+    highLatitudeRuleOptions,
+    madhabOptions,
+    type PrayerAdjustments,
+    prayerNames,
+    roundingOptions,
+} from './prayerSettings';
+import type { SettableParams } from './SceneStore';
+import type { SunPathParams } from './SunPath';
+import { isValidTimeZone } from './timezone';
+
+type FieldSpec =
+    | { type: 'boolean' }
+    | { type: 'number'; min: number; max: number }
+    | { type: 'option'; values: readonly string[] }
+    | { type: 'timeZone' };
+
+// The wall clock params are derived from the scene time, the rest is fixed scene geometry
+export type SceneParamName = Exclude<
+    keyof SunPathParams,
+    'baseY' | 'day' | 'hour' | 'minute' | 'month' | 'prayerAdjustments' | 'radius' | 'shadowBias'
+>;
+
+export type CameraMode = 'bird' | 'firstPerson';
+
+export interface CameraState {
+    mode: CameraMode;
+    position: Vector3Tuple;
+    target: Vector3Tuple;
+}
+
+const visibilityNames = ['orientation', 'qibla', 'shadowHelper', 'sunHelper', 'sunSphere'] as const;
+
+export type VisibilityName = (typeof visibilityNames)[number];
+
+export interface LightState {
+    ambientIntensity: number;
+    castShadow: boolean;
+    shadowBias: number;
+    sunIntensity: number;
+}
+
+export interface SceneState {
+    camera?: CameraState;
+    light: Partial<LightState>;
+    params: Partial<SettableParams>;
+    sky: Partial<SkyControl>;
+    time?: number;
+    visibility: Partial<Record<VisibilityName, boolean>>;
+}
+
+const boolean: FieldSpec = { type: 'boolean' };
+
+const paramFields: Record<SceneParamName, FieldSpec> = {
+    analemmaFirstHour: { max: 23, min: 0, type: 'number' },
+    analemmaHourStep: { max: 12, min: 1, type: 'number' },
+    analemmaLastHour: { max: 23, min: 0, type: 'number' },
+    analemmaTimeBasis: { type: 'option', values: Object.values(analemmaTimeBasisOptions) },
+    animateTime: boolean,
+    autoTimeZone: boolean,
+    calculationMethod: { type: 'option', values: Object.values(calculationMethodOptions) },
+    fajrAngle: { max: 30, min: 0, type: 'number' },
+    gnomonHeight: { max: 4, min: 0.5, type: 'number' },
+    highLatitudeRule: { type: 'option', values: Object.values(highLatitudeRuleOptions) },
+    hijriAdjustment: { max: 3, min: -3, type: 'number' },
+    hijriCalendar: { type: 'option', values: Object.values(hijriCalendarOptions) },
+    ishaAngle: { max: 30, min: 0, type: 'number' },
+    ishaInterval: { max: 180, min: 0, type: 'number' },
+    latitude: { max: 90, min: -90, type: 'number' },
+    longitude: { max: 180, min: -180, type: 'number' },
+    madhab: { type: 'option', values: Object.values(madhabOptions) },
+    northOffset: { max: 360, min: 0, type: 'number' },
+    rounding: { type: 'option', values: Object.values(roundingOptions) },
+    showAnalemmaLabels: boolean,
+    showAnalemmas: boolean,
+    showFastingChart: boolean,
+    showGnomon: boolean,
+    showHorizonRing: boolean,
+    showMonthlyPaths: boolean,
+    showMoon: boolean,
+    showMoonDayPath: boolean,
+    showPrayerMarkers: boolean,
+    showSeasonalPaths: boolean,
+    showSunDayPath: boolean,
+    showSunSurface: boolean,
+    showTwilightCones: boolean,
+    sunSurfaceDayStep: { max: 61, min: 1, type: 'number' },
+    sunSurfaceMinuteStep: { max: 120, min: 5, type: 'number' },
+    timeSpeed: { max: 10000, min: 0, type: 'number' },
+    timeZone: { type: 'timeZone' },
+};
+
+const adjustmentField: FieldSpec = { max: 30, min: -30, type: 'number' };
+
+const skyFields: Record<keyof SkyControl, FieldSpec> = {
+    exposure: { max: 10, min: 0, type: 'number' },
+    mieCoefficient: { max: 0.1, min: 0, type: 'number' },
+    mieDirectionalG: { max: 1, min: 0, type: 'number' },
+    rayleigh: { max: 4, min: 0, type: 'number' },
+    turbidity: { max: 20, min: 0, type: 'number' },
+};
+
+const lightFields: Record<keyof LightState, FieldSpec> = {
+    ambientIntensity: { max: 10, min: 0, type: 'number' },
+    castShadow: boolean,
+    shadowBias: { max: 0, min: -0.01, type: 'number' },
+    sunIntensity: { max: 10, min: 0, type: 'number' },
+};
+
+const sceneParamNames = Object.keys(paramFields) as SceneParamName[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const booleanStrings: Record<string, boolean> = { '0': false, '1': true, false: false, true: true };
+
+const readBoolean = (value: unknown) => {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    return Object.hasOwn(booleanStrings, String(value)) ? booleanStrings[String(value)] : undefined;
+};
+
+const readNumber = (value: unknown, min: number, max: number) => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && number >= min && number <= max ? number : undefined;
+};
+
+// Accepts real JSON values as well as the strings of a URL, undefined means invalid
+function readField(field: FieldSpec, value: unknown) {
+    switch (field.type) {
+        case 'boolean':
+            return readBoolean(value);
+        case 'number':
+            return readNumber(value, field.min, field.max);
+        case 'option':
+            return typeof value === 'string' && field.values.includes(value) ? value : undefined;
+        case 'timeZone':
+            return typeof value === 'string' && isValidTimeZone(value) ? value : undefined;
+    }
+}
+
+function readFields(
+    fields: Record<string, FieldSpec>,
+    values: Record<string, unknown>,
+    prefix: string,
+    rejected: string[],
+) {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+        const field = fields[key];
+        const parsed = field ? readField(field, value) : undefined;
+        if (parsed === undefined) {
+            rejected.push(`${prefix}${key}`);
+        } else {
+            result[key] = parsed;
+        }
+    }
+    return result;
+}
+
+const readVector = (value: unknown) => {
+    const parts = typeof value === 'string' ? value.split(',').map(Number) : value;
+    if (Array.isArray(parts) && parts.length === 3 && parts.every((part) => Number.isFinite(part))) {
+        return parts as Vector3Tuple;
+    }
+    return undefined;
+};
+
+function readCamera(value: Record<string, unknown>, rejected: string[]): CameraState | undefined {
+    const position = readVector(value.position);
+    const target = readVector(value.target);
+    if ((value.mode === 'bird' || value.mode === 'firstPerson') && position && target) {
+        return { mode: value.mode, position, target };
+    }
+    rejected.push('camera');
+    return undefined;
+}
+
+function readParams(values: Record<string, unknown>, rejected: string[]) {
+    const { prayerAdjustments, ...rest } = values;
+    const params = readFields(paramFields, rest, '', rejected) as Partial<SettableParams>;
+    if (isRecord(prayerAdjustments)) {
+        const adjustmentFields = Object.fromEntries(prayerNames.map((prayer) => [prayer, adjustmentField]));
+        const adjustments = readFields(adjustmentFields, prayerAdjustments, 'prayerAdjustments.', rejected);
+        params.prayerAdjustments = adjustments as PrayerAdjustments;
+    }
+    return params;
+}
+
+// Keeps every well-formed, in-range value and reports the names of the others, so callers fall back to defaults
+function sanitizeSceneState(value: unknown) {
+    const rejected: string[] = [];
+    const state: SceneState = { light: {}, params: {}, sky: {}, visibility: {} };
+    if (!isRecord(value)) {
+        return { rejected: value === undefined ? rejected : ['state'], state };
+    }
+
+    const { camera, light, params, sky, time, visibility } = value;
+    if (isRecord(params)) {
+        state.params = readParams(params, rejected);
+    }
+    if (isRecord(light)) {
+        state.light = readFields(lightFields, light, 'light.', rejected) as Partial<LightState>;
+    }
+    if (isRecord(sky)) {
+        state.sky = readFields(skyFields, sky, 'sky.', rejected) as Partial<SkyControl>;
+    }
+    if (isRecord(visibility)) {
+        const visibilityFields = Object.fromEntries(visibilityNames.map((name) => [name, boolean]));
+        state.visibility = readFields(visibilityFields, visibility, 'visibility.', rejected);
+    }
+    if (isRecord(camera)) {
+        state.camera = readCamera(camera, rejected);
+    }
+    if (time !== undefined) {
+        const parsed = typeof time === 'number' ? time : Date.parse(String(time));
+        if (Number.isFinite(parsed)) {
+            state.time = parsed;
+        } else {
+            rejected.push('time');
+        }
+    }
+    return { rejected, state };
+}
+
+// Later states win, group by group
+function mergeSceneStates(...states: SceneState[]): SceneState {
+    const merged: SceneState = { light: {}, params: {}, sky: {}, visibility: {} };
+    for (const state of states) {
+        const { prayerAdjustments, ...params } = state.params;
+        merged.params = { ...merged.params, ...params };
+        if (prayerAdjustments) {
+            merged.params.prayerAdjustments = { ...merged.params.prayerAdjustments, ...prayerAdjustments };
+        }
+        merged.light = { ...merged.light, ...state.light };
+        merged.sky = { ...merged.sky, ...state.sky };
+        merged.visibility = { ...merged.visibility, ...state.visibility };
+        merged.camera = state.camera ?? merged.camera;
+        merged.time = state.time ?? merged.time;
+    }
+    return merged;
+}
+
+// Partial adjustments are merged, so a state never drops the prayers it does not mention
+function applySceneParams(params: SunPathParams, state: SceneState) {
+    const { prayerAdjustments, ...rest } = state.params;
+    Object.assign(params, rest);
+    if (prayerAdjustments) {
+        params.prayerAdjustments = { ...params.prayerAdjustments, ...prayerAdjustments };
+    }
+}
+
+function pickSceneParams(params: SunPathParams): Partial<SettableParams> {
+    const picked: Record<string, unknown> = {};
+    for (const name of sceneParamNames) {
+        picked[name] = params[name];
+    }
+    return { ...picked, prayerAdjustments: { ...params.prayerAdjustments } };
+}
+
+export { applySceneParams, isRecord, mergeSceneStates, pickSceneParams, sanitizeSceneState, visibilityNames };
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { deletePreset, importPresets, loadSettings, renamePreset, savePreset, saveSettings } from './settingsStore';
+
+const STORAGE_KEY = 'salat3d.settings';
+
+// Bun has no localStorage, so each test gets an empty one in memory
+class MemoryStorage {
+    items = new Map<string, string>();
+
+    getItem(key: string) {
+        return this.items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+}
+
+const empty = { light: {}, params: {}, sky: {}, visibility: {} };
+
+const store = (data: unknown) =>
+    localStorage.setItem(STORAGE_KEY, typeof data === 'string' ? data : JSON.stringify(data));
+
+describe('settingsStore', () => {
+    let warn: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+        Object.assign(globalThis, { localStorage: new MemoryStorage() });
+        warn = spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        warn.mockRestore();
+    });
+
+    describe('loadSettings', () => {
+        it('should give empty settings when nothing is stored or the data is not JSON', () => {
+            expect(loadSettings()).toEqual({ current: undefined, presets: [], version: 1 });
+            store('{"version": 1,');
+            expect(loadSettings()).toEqual({ presets: [], version: 1 });
+            store([1, 2]);
+            expect(loadSettings()).toEqual({ presets: [], version: 1 });
+        });
+
+        it('should migrate an unversioned scene state to the current settings', () => {
+            store({ params: { latitude: 21.4225, showMoon: false }, sky: { turbidity: 4 } });
+            expect(loadSettings()).toEqual({
+                current: { ...empty, params: { latitude: 21.4225, showMoon: false }, sky: { turbidity: 4 } },
+                presets: [],
+                version: 1,
+            });
+        });
+
+        it('should drop invalid values and presets without a name, and trim the names', () => {
+            store({
+                current: { params: { latitude: 100, longitude: 39.8 } },
+                presets: [
+                    { name: '  Makkah ', state: { params: { latitude: 21.4225, madhab: 'other' } } },
+                    { name: '   ', state: {} },
+                    { state: {} },
+                    'London',
+                ],
+                version: 1,
+            });
+            expect(loadSettings()).toEqual({
+                current: { ...empty, params: { longitude: 39.8 } },
+                presets: [{ name: 'Makkah', state: { ...empty, params: { latitude: 21.4225 } } }],
+                version: 1,
+            });
+        });
+
+        it('should read what it understands of a newer version and warn', () => {
+            store({ current: { params: { latitude: 10 } }, presets: [], version: 2, widgets: [] });
+            expect(loadSettings()).toEqual({
+                current: { ...empty, params: { latitude: 10 } },
+                presets: [],
+                version: 1,
+            });
+            expect(warn).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('saveSettings', () => {
+        it('should store the settings under the current version', () => {
+            expect(saveSettings({ presets: [], version: 0 })).toBe(true);
+            expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '')).toEqual({ presets: [], version: 1 });
+        });
+
+        it('should warn and give false when the storage refuses the write', () => {
+            localStorage.setItem = () => {
+                throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+            };
+            expect(saveSettings({ presets: [], version: 1 })).toBe(false);
+            expect(warn).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('presets', () => {
+        const makkah = { ...empty, params: { latitude: 21.4225 } };
+        const london = { ...empty, params: { latitude: 51.5 } };
+
+        it('should replace a preset saved under an existing name', () => {
+            const settings = savePreset(savePreset({ presets: [], version: 1 }, 'Home', makkah), 'Home', london);
+            expect(settings.presets).toEqual([{ name: 'Home', state: london }]);
+        });
+
+        it('should rename and delete presets by name', () => {
+            const settings = savePreset(savePreset({ presets: [], version: 1 }, 'A', makkah), 'B', london);
+            expect(renamePreset(settings, 'A', 'B').presets).toEqual([{ name: 'B', state: makkah }]);
+            expect(renamePreset(settings, 'C', 'D')).toBe(settings);
+            expect(deletePreset(settings, 'A').presets).toEqual([{ name: 'B', state: london }]);
+        });
+    });
+
+    describe('importPresets', () => {
+        const settings = { presets: [{ name: 'Home', state: empty }], version: 1 };
+
+        it('should add the presets of an exported file, replacing those of the same name', async () => {
+            const file = new File(
+                [JSON.stringify({ presets: [{ name: 'Home', state: { params: { latitude: 1 } } }], version: 1 })],
+                'presets.json',
+            );
+            expect((await importPresets(settings, file)).presets).toEqual([
+                { name: 'Home', state: { ...empty, params: { latitude: 1 } } },
+            ]);
+        });
+
+        it('should add a bare scene state as a preset named after the file', async () => {
+            const file = new File([JSON.stringify({ params: { latitude: 1 } })], 'Makkah.JSON');
+            expect((await importPresets(settings, file)).presets.map(({ name }) => name)).toEqual(['Home', 'Makkah']);
+        });
+
+        it('should leave the settings unchanged for data that is not a settings object', async () => {
+            for (const content of ['[]', '42', 'null', '{"presets": "none", "version": 1}']) {
+                expect(await importPresets(settings, new File([content], 'bad.json'))).toEqual(settings);
+            }
+        });
+
+        it('should reject a file that is not JSON', async () => {
+            await expect(importPresets(settings, new File(['presets'], 'bad.json'))).rejects.toThrow(SyntaxError);
+        });
+    });
+});
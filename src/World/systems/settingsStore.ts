@@ -0,0 +1,143 @@
+import { downloadFile } from './download';
+import type { ParamName, SceneStore } from './SceneStore';
+import { isRecord, type SceneState, sanitizeSceneState } from './sceneState';
+
+export interface ScenePreset {
+    name: string;
+    state: SceneState;
+}
+
+export interface StoredSettings {
+    version: number;
+    current?: SceneState;
+    presets: ScenePreset[];
+}
+
+type Migration = (settings: Record<string, unknown>) => Record<string, unknown>;
+
+const STORAGE_KEY = 'salat3d.settings';
+const SETTINGS_VERSION = 1;
+// milliseconds between a change and the write, changes in between are saved together
+const AUTOSAVE_DELAY = 1000;
+
+// The wall clock params follow the simulated time, which is not saved
+const clockParams: ParamName[] = ['day', 'hour', 'minute', 'month'];
+
+// migrations[n] upgrades data of version n to version n + 1
+const migrations: Migration[] = [
+    // data without a version is a bare scene state, e.g. a hand written preset file
+    (settings) => ({ current: settings, presets: [] }),
+];
+
+function migrateSettings(data: unknown): StoredSettings {
+    if (!isRecord(data)) {
+        return { presets: [], version: SETTINGS_VERSION };
+    }
+    let settings = data;
+    let version = typeof data.version === 'number' ? data.version : 0;
+    if (version > SETTINGS_VERSION) {
+        console.warn(`Settings version ${version} is newer than ${SETTINGS_VERSION}, reading what is understood`);
+    }
+    for (; version < SETTINGS_VERSION; version++) {
+        settings = migrations[version](settings);
+    }
+
+    const readState = (state: unknown) => sanitizeSceneState(state).state;
+    const presets = Array.isArray(settings.presets) ? settings.presets : [];
+    return {
+        current: settings.current === undefined ? undefined : readState(settings.current),
+        presets: presets
+            .filter((preset) => isRecord(preset) && typeof preset.name === 'string' && preset.name.trim() !== '')
+            .map((preset) => ({ name: preset.name.trim(), state: readState(preset.state) })),
+        version: SETTINGS_VERSION,
+    };
+}
+
+function loadSettings() {
+    try {
+        return migrateSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+    } catch {
+        return migrateSettings(null);
+    }
+}
+
+// A full quota or storage blocked in private browsing only costs the save, so false tells the caller to try again
+function saveSettings(settings: StoredSettings) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...settings, version: SETTINGS_VERSION }));
+        return true;
+    } catch (error) {
+        console.warn(`Settings could not be saved: ${(error as Error).message}`);
+        return false;
+    }
+}
+
+// Presets are keyed by name, saving under an existing name replaces it
+function savePreset(settings: StoredSettings, name: string, state: SceneState): StoredSettings {
+    const presets = settings.presets.filter((preset) => preset.name !== name);
+    return { ...settings, presets: [...presets, { name, state }] };
+}
+
+function renamePreset(settings: StoredSettings, name: string, newName: string): StoredSettings {
+    const preset = settings.presets.find((p) => p.name === name);
+    if (!preset || name === newName) {
+        return settings;
+    }
+    return savePreset(deletePreset(settings, name), newName, preset.state);
+}
+
+function deletePreset(settings: StoredSettings, name: string): StoredSettings {
+    return { ...settings, presets: settings.presets.filter((preset) => preset.name !== name) };
+}
+
+function exportPresets(presets: ScenePreset[]) {
+    const content = JSON.stringify({ presets, version: SETTINGS_VERSION }, null, 2);
+    downloadFile('salat3d-presets.json', content, 'application/json');
+}
+
+// Files go through the same migration as the stored settings; a bare scene state becomes one preset
+async function importPresets(settings: StoredSettings, file: File) {
+    const imported = migrateSettings(JSON.parse(await file.text()));
+    const presets = imported.current
+        ? [...imported.presets, { name: file.name.replace(/\.json$/i, ''), state: imported.current }]
+        : imported.presets;
+    return presets.reduce((merged, preset) => savePreset(merged, preset.name, preset.state), settings);
+}
+
+// Stores the current state (without the simulated time, so a reload starts now) shortly after the store changes;
+// the returned function asks for a save after changes outside the store (camera, lights, sky)
+function createSettingsAutosave(store: SceneStore, getState: () => SceneState) {
+    let pending = false;
+    let saved = '';
+    const save = () => {
+        pending = false;
+        const current = { ...getState(), time: undefined };
+        const serialized = JSON.stringify(current);
+        if (serialized !== saved && saveSettings({ ...loadSettings(), current })) {
+            saved = serialized;
+        }
+    };
+    const schedule = () => {
+        if (!pending) {
+            pending = true;
+            setTimeout(save, AUTOSAVE_DELAY);
+        }
+    };
+    store.subscribe(({ keys }) => {
+        if ([...keys].some((key) => !clockParams.includes(key))) {
+            schedule();
+        }
+    });
+    return schedule;
+}
+
+export {
+    createSettingsAutosave,
+    deletePreset,
+    exportPresets,
+    importPresets,
+    loadSettings,
+    renamePreset,
+    savePreset,
+    saveSettings,
+};
@@ -0,0 +1,153 @@
+import { downloadFile } from './download';
+import type { Loop } from './Loop';
+import type { Resizer } from './Resizer';
+import type { SunPath } from './SunPath';
+import { formatZonedDate, zonedTimeToUtc } from './timezone';
+import { createZip, type ZipEntry } from './zip';
+
+export type TimeLapseFormat = 'png' | 'zip';
+
+export interface TimeLapseSettings {
+    // first and last frame, "YYYY-MM-DD HH:MM" on the clock of the location
+    from: string;
+    to: string;
+    // simulated minutes between two frames
+    minuteStep: number;
+    width: number;
+    height: number;
+    format: TimeLapseFormat;
+}
+
+const timeLapseFormatOptions: Record<string, TimeLapseFormat> = {
+    'PNG files': 'png',
+    'ZIP archive': 'zip',
+};
+
+// A ZIP archive holds every frame in memory until it is written
+const MAX_FRAMES = 3600;
+
+function parseDateTime(value: string, timeZone: string) {
+    const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`"${value}" is not a time like 2026-06-21 04:30`);
+    }
+    const [year, month, day, hour, minute] = match.slice(1).map(Number);
+    return zonedTimeToUtc({ day, hour, minute, month, year }, timeZone);
+}
+
+// Frame instants an exact step apart, counted in elapsed time rather than on the wall clock
+function getFrameTimes({ from, minuteStep, to }: TimeLapseSettings, timeZone: string) {
+    const first = parseDateTime(from, timeZone);
+    const last = parseDateTime(to, timeZone);
+    const step = minuteStep * 60 * 1000;
+    if (!(step > 0)) {
+        throw new Error('The step must be more than zero minutes');
+    }
+    if (last < first) {
+        throw new Error('The last frame must not be before the first');
+    }
+    const count = Math.floor((last - first) / step) + 1;
+    if (count > MAX_FRAMES) {
+        throw new Error(`${count} frames is more than the ${MAX_FRAMES} allowed, use a longer step`);
+    }
+    return Array.from({ length: count }, (_, i) => first + i * step);
+}
+
+const toBlob = (canvas: HTMLCanvasElement) =>
+    new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(
+            (blob) => (blob ? resolve(blob) : reject(new Error('A frame could not be encoded'))),
+            'image/png',
+        ),
+    );
+
+// Renders a time range to numbered PNG frames at a fixed resolution, stepping the loop in fixed timestep mode so
+// the same settings always give the same frames
+class TimeLapseExport {
+    loop: Loop;
+    resizer: Resizer;
+    sunPath: SunPath;
+    settings: TimeLapseSettings;
+    status: string;
+    controller?: AbortController;
+
+    constructor(loop: Loop, resizer: Resizer, sunPath: SunPath) {
+        this.loop = loop;
+        this.resizer = resizer;
+        this.sunPath = sunPath;
+        const day = formatZonedDate(sunPath.date, sunPath.params.timeZone);
+        this.settings = {
+            format: 'zip',
+            from: `${day} 04:00`,
+            height: 720,
+            minuteStep: 10,
+            to: `${day} 20:00`,
+            width: 1280,
+        };
+        this.status = 'Not run';
+    }
+
+    // One export at a time, as each one takes over the loop and the renderer until it restores them
+    async run() {
+        if (this.controller) {
+            return;
+        }
+        const controller = new AbortController();
+        this.controller = controller;
+        const { loop, resizer, sunPath } = this;
+        const { animateTime } = sunPath.params;
+        const { date } = sunPath;
+        const { fixedTimestep } = loop;
+        try {
+            const frames = getFrameTimes(this.settings, sunPath.params.timeZone);
+            const { format, height, width } = this.settings;
+            const digits = Math.max(4, String(frames.length).length);
+            const prefix = `salat3d-${this.settings.from.replace(/\D/g, '')}`;
+            const entries: ZipEntry[] = [];
+
+            loop.stop();
+            loop.fixedTimestep = true;
+            sunPath.store.set({ animateTime: false });
+            loop.renderer.setPixelRatio(1);
+            loop.renderer.setSize(width, height, false);
+            resizer.camera.aspect = width / height;
+            resizer.camera.updateProjectionMatrix();
+
+            for (const [i, time] of frames.entries()) {
+                controller.signal.throwIfAborted();
+                sunPath.setDate(time);
+                loop.tick();
+                loop.render();
+                const blob = await toBlob(loop.renderer.domElement);
+                const name = `${prefix}-${String(i + 1).padStart(digits, '0')}.png`;
+                if (format === 'zip') {
+                    entries.push({ data: new Uint8Array(await blob.arrayBuffer()), name });
+                } else {
+                    downloadFile(name, blob, 'image/png');
+                }
+                this.status = `Frame ${i + 1} of ${frames.length}`;
+            }
+            controller.signal.throwIfAborted();
+            if (format === 'zip') {
+                this.status = 'Writing archive';
+                downloadFile(`${prefix}.zip`, createZip(entries), 'application/zip');
+            }
+            this.status = `Exported ${frames.length} frames`;
+        } catch (error) {
+            this.status = controller.signal.aborted ? 'Cancelled' : (error as Error).message;
+        } finally {
+            this.controller = undefined;
+            loop.fixedTimestep = fixedTimestep;
+            sunPath.store.set({ animateTime });
+            sunPath.setDate(date);
+            resizer.onResize();
+            loop.start();
+        }
+    }
+
+    cancel() {
+        this.controller?.abort();
+    }
+}
+
+export { getFrameTimes, TimeLapseExport, timeLapseFormatOptions };
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test';
+import { getPrayerTimes, type Observer } from './engine';
+import { applyCalculationMethod, type PrayerSettings } from './prayerSettings';
+import { generateTimetable, timetableToCSV, timetableToICS, timetableToJSON } from './timetableExport';
+
+const london: Observer = { latitude: 51.5074, longitude: -0.1278, timeZone: 'Europe/London' };
+const tromso: Observer = { latitude: 69.6492, longitude: 18.9553, timeZone: 'Europe/Oslo' };
+
+const settings: PrayerSettings = {
+    calculationMethod: 'MuslimWorldLeague',
+    fajrAngle: 0,
+    highLatitudeRule: 'middleofthenight',
+    ishaAngle: 0,
+    ishaInterval: 0,
+    madhab: 'shafi',
+    prayerAdjustments: { asr: 0, dhuhr: 0, fajr: 0, isha: 0, maghrib: 0, sunrise: 0 },
+    rounding: 'nearest',
+};
+applyCalculationMethod(settings);
+
+const createTimetable = (date: string, range: 'day' | 'month' | 'year', observer = london) =>
+    generateTimetable(Date.parse(date), range, observer.timeZone, (day) => getPrayerTimes(day, observer, settings));
+
+// The March timetable of London, whose clocks go forward on the 29th
+const march = createTimetable('2026-03-15T12:00:00Z', 'month');
+
+describe('timetableExport', () => {
+    describe('generateTimetable', () => {
+        it('should give every day of the month once across the change to daylight saving time', () => {
+            expect(march).toHaveLength(31);
+            expect(march.map(({ date }) => Number(date.slice(-2)))).toEqual(
+                Array.from({ length: 31 }, (_, i) => i + 1),
+            );
+        });
+
+        it('should give every day of the year once, leap days included', () => {
+            expect(createTimetable('2026-10-25T01:30:00Z', 'year')).toHaveLength(365);
+            expect(createTimetable('2028-07-01T00:00:00Z', 'year')).toHaveLength(366);
+        });
+
+        it('should give the day of the location rather than the UTC day', () => {
+            const [day] = createTimetable('2026-03-01T23:30:00Z', 'day', { ...london, timeZone: 'Asia/Riyadh' });
+            expect(day.date).toBe('2026-03-02');
+        });
+    });
+
+    describe('timetableToCSV', () => {
+        it('should write the clock times of the location, an hour later after the change', () => {
+            const [header, ...rows] = timetableToCSV(march, london.timeZone).split('\n');
+            expect(header).toBe('Date,Fajr,Sunrise,Dhuhr,Asr,Maghrib,Isha');
+            expect(rows).toHaveLength(31);
+            const dhuhr = (date: string) => rows.find((row) => row.startsWith(date))?.split(',')[3];
+            expect(dhuhr('2026-03-28')).toBe('12:07');
+            expect(dhuhr('2026-03-29')).toBe('13:06');
+        });
+
+        it('should leave the cells of prayers that do not occur empty', () => {
+            const rows = timetableToCSV(createTimetable('2026-06-21T12:00:00Z', 'day', tromso), tromso.timeZone);
+            const cells = rows.split('\n')[1].split(',');
+            expect(cells[0]).toBe('2026-06-21');
+            expect(cells[1]).toBe('');
+            expect(cells[3]).not.toBe('');
+        });
+    });
+
+    describe('timetableToJSON', () => {
+        it('should write the location, settings and clock times of each day', () => {
+            const json = JSON.parse(timetableToJSON(march, london, settings));
+            expect(json.location).toEqual(london);
+            expect(json.settings.fajrAngle).toBe(18);
+            expect(json.days[28]).toMatchObject({ date: '2026-03-29', dhuhr: '13:06' });
+        });
+    });
+
+    describe('timetableToICS', () => {
+        const ics = timetableToICS(march, london);
+        const events = ics.split('BEGIN:VEVENT').slice(1);
+
+        it('should write one event for each prayer of each day, without sunrise', () => {
+            expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+            expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+            expect(ics).not.toContain('\n\n');
+            expect(ics.split('\n').every((line) => line === '' || line.endsWith('\r'))).toBe(true);
+            expect(events).toHaveLength(31 * 5);
+            expect(ics).not.toContain('SUMMARY:Sunrise');
+        });
+
+        it('should write UTC instants, unaffected by the change of clocks', () => {
+            const dhuhr = (date: string) =>
+                events.find((event) => event.includes(`UID:${date}-dhuhr-`))?.match(/DTSTART:(\S+)/)?.[1];
+            expect(dhuhr('2026-03-28')).toMatch(/^20260328T1207\d{2}Z$/);
+            expect(dhuhr('2026-03-29')).toMatch(/^20260329T1206\d{2}Z$/);
+        });
+
+        it('should end each event 15 minutes after it starts and escape its location', () => {
+            const [event] = events;
+            expect(event).toContain('DTSTART:20260301T');
+            const start = event.match(/DTSTART:\d{8}T(\d{2})(\d{2})/);
+            const end = event.match(/DTEND:\d{8}T(\d{2})(\d{2})/);
+            const minutes = (match: RegExpMatchArray | null) => Number(match?.[1]) * 60 + Number(match?.[2]);
+            expect(minutes(end) - minutes(start)).toBe(15);
+            expect(event).toContain('LOCATION:51.5074\\, -0.1278');
+        });
+
+        it('should skip prayers that do not occur', () => {
+            const polar = timetableToICS(createTimetable('2026-06-21T12:00:00Z', 'day', tromso), tromso);
+            expect(polar).not.toContain('SUMMARY:Fajr');
+            expect(polar).toContain('SUMMARY:Dhuhr');
+        });
+    });
+});
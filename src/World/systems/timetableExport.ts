@@ -0,0 +1,125 @@
+import type { PrayerTimes } from 'adhan';
+import { downloadFile } from './download';
+import { prayerLabels } from './PrayerTimetable';
+import { type PrayerName, type PrayerSettings, prayerNames } from './prayerSettings';
+import { formatZonedDate, formatZonedTime, getZonedNoons, getZonedParts, pad } from './timezone';
+
+export type TimetableRange = 'day' | 'month' | 'year';
+export type TimetableFormat = 'csv' | 'json' | 'ics';
+
+export interface TimetableDay {
+    // calendar day (YYYY-MM-DD) in the location's time zone
+    date: string;
+    times: Record<PrayerName, Date>;
+}
+
+export interface TimetableLocation {
+    latitude: number;
+    longitude: number;
+    timeZone: string;
+}
+
+const EVENT_DURATION = 15 * 60 * 1000;
+
+const formatCell = (date: Date, timeZone: string) =>
+    Number.isNaN(date.getTime()) ? '' : formatZonedTime(date, timeZone);
+
+const formatICSDate = (date: Date) =>
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeICSText = (text: string) => text.replace(/[\\;,]/g, (match) => `\\${match}`);
+
+function generateTimetable(
+    date: number | Date,
+    range: TimetableRange,
+    timeZone: string,
+    getPrayerTimes: (date: Date) => PrayerTimes,
+) {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    const first = { day: range === 'day' ? day : 1, month: range === 'year' ? 1 : month, year };
+    // day 0 is the last day of the month before
+    const last =
+        range === 'year'
+            ? { day: 0, month: 1, year: year + 1 }
+            : range === 'month'
+              ? { day: 0, month: month + 1, year }
+              : first;
+
+    return getZonedNoons(first, last, timeZone).map((time): TimetableDay => {
+        const prayerTimes = getPrayerTimes(new Date(time));
+        const times = {} as TimetableDay['times'];
+        for (const prayer of prayerNames) {
+            times[prayer] = prayerTimes[prayer];
+        }
+        return { date: formatZonedDate(time, timeZone), times };
+    });
+}
+
+function timetableToCSV(days: TimetableDay[], timeZone: string) {
+    const header = ['Date', ...prayerNames.map((prayer) => prayerLabels[prayer])].join(',');
+    const rows = days.map(({ date, times }) =>
+        [date, ...prayerNames.map((prayer) => formatCell(times[prayer], timeZone))].join(','),
+    );
+    return [header, ...rows].join('\n');
+}
+
+function timetableToJSON(days: TimetableDay[], location: TimetableLocation, settings: PrayerSettings) {
+    const timetable = {
+        days: days.map(({ date, times }) => ({
+            date,
+            ...Object.fromEntries(prayerNames.map((prayer) => [prayer, formatCell(times[prayer], location.timeZone)])),
+        })),
+        location,
+        settings,
+    };
+    return JSON.stringify(timetable, null, 2);
+}
+
+// Sunrise is not a prayer, so it gets no calendar event
+function timetableToICS(days: TimetableDay[], location: TimetableLocation) {
+    const place = `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`;
+    const stamp = formatICSDate(new Date());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//salat3d//Prayer Times//EN', 'CALSCALE:GREGORIAN'];
+    lines.push(`X-WR-TIMEZONE:${location.timeZone}`);
+    for (const { date, times } of days) {
+        for (const prayer of prayerNames) {
+            const start = times[prayer];
+            if (prayer === 'sunrise' || Number.isNaN(start.getTime())) {
+                continue;
+            }
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${date}-${prayer}-${place.replace(/[^\d.-]/g, '')}@salat3d`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${formatICSDate(start)}`,
+                `DTEND:${formatICSDate(new Date(start.getTime() + EVENT_DURATION))}`,
+                `SUMMARY:${escapeICSText(prayerLabels[prayer])}`,
+                `LOCATION:${escapeICSText(place)}`,
+                'END:VEVENT',
+            );
+        }
+    }
+    lines.push('END:VCALENDAR');
+    return `${lines.join('\r\n')}\r\n`;
+}
+
+function exportTimetable(
+    days: TimetableDay[],
+    format: TimetableFormat,
+    location: TimetableLocation,
+    settings: PrayerSettings,
+) {
+    const first = days[0].date;
+    const last = days[days.length - 1].date;
+    const fileName = `prayer-times-${first === last ? first : `${first}_${last}`}.${format}`;
+    if (format === 'csv') {
+        downloadFile(fileName, timetableToCSV(days, location.timeZone), 'text/csv');
+    } else if (format === 'json') {
+        downloadFile(fileName, timetableToJSON(days, location, settings), 'application/json');
+    } else {
+        downloadFile(fileName, timetableToICS(days, location), 'text/calendar');
+    }
+}
+
+export { exportTimetable, generateTimetable, timetableToCSV, timetableToICS, timetableToJSON };
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    addZonedDays,
+    formatHours,
+    formatTimeZoneOffset,
+    formatZonedDate,
+    formatZonedTime,
+    getDaysInYear,
+    getTimeZoneOffset,
+    getZonedNoons,
+    getZonedParts,
+    isValidTimeZone,
+    startOfZonedDay,
+    zonedTimeToUtc,
+} from './timezone';
+
+const newYork = 'America/New_York';
+const london = 'Europe/London';
+
+const toIso = (time: number) => new Date(time).toISOString();
+
+describe('timezone', () => {
+    describe('getZonedParts', () => {
+        it('should read the wall clock of the zone with a 1-based month and a 24 hour clock', () => {
+            expect(getZonedParts(Date.parse('2026-01-01T04:30:15Z'), newYork)).toEqual({
+                day: 31,
+                hour: 23,
+                minute: 30,
+                month: 12,
+                second: 15,
+                year: 2025,
+            });
+            expect(getZonedParts(Date.parse('2026-06-21T00:00:00Z'), 'UTC').hour).toBe(0);
+        });
+    });
+
+    describe('zonedTimeToUtc', () => {
+        it('should use the offset in force on the day', () => {
+            expect(toIso(zonedTimeToUtc({ day: 7, hour: 12, month: 3, year: 2026 }, newYork))).toBe(
+                '2026-03-07T17:00:00.000Z',
+            );
+            expect(toIso(zonedTimeToUtc({ day: 9, hour: 12, month: 3, year: 2026 }, newYork))).toBe(
+                '2026-03-09T16:00:00.000Z',
+            );
+        });
+
+        it('should move a time skipped when the clocks go forward past the change', () => {
+            // 02:30 does not exist in New York on 8 March, nor 01:30 in London on 29 March
+            expect(toIso(zonedTimeToUtc({ day: 8, hour: 2, minute: 30, month: 3, year: 2026 }, newYork))).toBe(
+                '2026-03-08T07:30:00.000Z',
+            );
+            expect(toIso(zonedTimeToUtc({ day: 29, hour: 1, minute: 30, month: 3, year: 2026 }, london))).toBe(
+                '2026-03-29T01:30:00.000Z',
+            );
+        });
+
+        it('should give the first occurrence of a time repeated when the clocks go back', () => {
+            expect(toIso(zonedTimeToUtc({ day: 1, hour: 1, minute: 30, month: 11, year: 2026 }, newYork))).toBe(
+                '2026-11-01T05:30:00.000Z',
+            );
+            expect(toIso(zonedTimeToUtc({ day: 25, hour: 1, minute: 30, month: 10, year: 2026 }, london))).toBe(
+                '2026-10-25T00:30:00.000Z',
+            );
+        });
+
+        it('should roll over out of range fields like Date.UTC', () => {
+            expect(toIso(zonedTimeToUtc({ day: 31, month: 2, year: 2026 }, newYork))).toBe('2026-03-03T05:00:00.000Z');
+            expect(formatZonedDate(zonedTimeToUtc({ day: 0, month: 1, year: 2026 }, london), london)).toBe(
+                '2025-12-31',
+            );
+        });
+
+        it('should give back the wall clock of every hour of a year, repeated ones included', () => {
+            for (
+                let time = Date.parse('2026-01-01T00:00:00Z');
+                time < Date.parse('2027-01-01T00:00:00Z');
+                time += 3600000
+            ) {
+                const parts = getZonedParts(time, newYork);
+                expect(getZonedParts(zonedTimeToUtc(parts, newYork), newYork)).toEqual(parts);
+            }
+        });
+    });
+
+    describe('addZonedDays', () => {
+        it('should keep the wall clock time across the change to daylight saving time', () => {
+            const noon = zonedTimeToUtc({ day: 7, hour: 12, month: 3, year: 2026 }, newYork);
+            const next = addZonedDays(noon, 2, newYork);
+            expect(formatZonedTime(next, newYork)).toBe('12:00');
+            expect(next - noon).toBe(47 * 3600000);
+            expect(addZonedDays(next, -2, newYork)).toBe(noon);
+        });
+
+        it('should keep the wall clock time across the change back to standard time', () => {
+            const noon = zonedTimeToUtc({ day: 24, hour: 12, month: 10, year: 2026 }, london);
+            const next = addZonedDays(noon, 1, london);
+            expect(formatZonedDate(next, london)).toBe('2026-10-25');
+            expect(formatZonedTime(next, london)).toBe('12:00');
+            expect(next - noon).toBe(25 * 3600000);
+        });
+
+        it('should land past the change when the time is skipped on the new day', () => {
+            const before = zonedTimeToUtc({ day: 7, hour: 2, minute: 30, month: 3, year: 2026 }, newYork);
+            expect(formatZonedTime(addZonedDays(before, 1, newYork), newYork)).toBe('03:30');
+        });
+    });
+
+    describe('getZonedNoons', () => {
+        it('should give local noon of each day across the changes of clocks, both ends included', () => {
+            const spring = getZonedNoons({ day: 28, month: 3, year: 2026 }, { day: 30, month: 3, year: 2026 }, london);
+            expect(spring.map(toIso)).toEqual([
+                '2026-03-28T12:00:00.000Z',
+                '2026-03-29T11:00:00.000Z',
+                '2026-03-30T11:00:00.000Z',
+            ]);
+            const autumn = getZonedNoons({ day: 1, month: 10, year: 2026 }, { day: 31, month: 10, year: 2026 }, london);
+            expect(autumn.map((noon) => getZonedParts(noon, london).day)).toEqual(
+                Array.from({ length: 31 }, (_, i) => i + 1),
+            );
+        });
+
+        it('should roll days over the end of the month and give nothing when the last day comes first', () => {
+            expect(
+                getZonedNoons({ day: 1, month: 2, year: 2028 }, { day: 0, month: 3, year: 2028 }, 'UTC'),
+            ).toHaveLength(29);
+            expect(getZonedNoons({ day: 5, month: 3, year: 2026 }, { day: 1, month: 3, year: 2026 }, 'UTC')).toEqual(
+                [],
+            );
+        });
+    });
+
+    describe('startOfZonedDay', () => {
+        it('should give local midnight of the day the instant falls on', () => {
+            expect(toIso(startOfZonedDay(Date.parse('2026-03-08T12:00:00Z'), newYork))).toBe(
+                '2026-03-08T05:00:00.000Z',
+            );
+            expect(toIso(startOfZonedDay(Date.parse('2026-03-09T03:00:00Z'), newYork))).toBe(
+                '2026-03-08T05:00:00.000Z',
+            );
+        });
+    });
+
+    describe('getTimeZoneOffset', () => {
+        it('should give the offset of the zone at the instant, in milliseconds', () => {
+            expect(getTimeZoneOffset(Date.parse('2026-01-15T12:00:00Z'), newYork)).toBe(-5 * 3600000);
+            expect(getTimeZoneOffset(Date.parse('2026-07-15T12:00:00Z'), newYork)).toBe(-4 * 3600000);
+        });
+    });
+
+    describe('formatTimeZoneOffset', () => {
+        it('should format whole and partial hour offsets', () => {
+            const date = Date.parse('2026-01-15T12:00:00Z');
+            expect(formatTimeZoneOffset(date, 'Asia/Kolkata')).toBe('UTC+05:30');
+            expect(formatTimeZoneOffset(date, 'America/St_Johns')).toBe('UTC-03:30');
+            expect(formatTimeZoneOffset(date, 'UTC')).toBe('UTC+00:00');
+        });
+    });
+
+    describe('getDaysInYear', () => {
+        it('should count the leap day of leap years only', () => {
+            expect(getDaysInYear(2026)).toBe(365);
+            expect(getDaysInYear(2028)).toBe(366);
+            expect(getDaysInYear(2100)).toBe(365);
+        });
+    });
+
+    describe('formatHours', () => {
+        it('should round to the minute and mark durations that do not occur', () => {
+            expect(formatHours(13.0833)).toBe('13h 05m');
+            expect(formatHours(23.999)).toBe('24h 00m');
+            expect(formatHours(Number.NaN)).toBe('--');
+        });
+    });
+
+    describe('isValidTimeZone', () => {
+        it('should accept IANA names and reject unknown ones', () => {
+            expect(isValidTimeZone('Asia/Riyadh')).toBe(true);
+            expect(isValidTimeZone('Etc/GMT-3')).toBe(true);
+            expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+        });
+    });
+});
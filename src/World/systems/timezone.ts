@@ -0,0 +1,157 @@
+export interface ZonedDateParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const monthLabels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const getDaysInYear = (year: number) => (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY;
+
+// A duration like 13h 05m, -- for one that does not occur
+const formatHours = (hours: number) => {
+    if (Number.isNaN(hours)) {
+        return '--';
+    }
+    const minutes = Math.round(hours * 60);
+    return `${Math.floor(minutes / 60)}h ${pad(minutes % 60)}m`;
+};
+
+// Calendar day of a date like 2026-06-21, undefined for anything else
+function parseDay(value: string): Pick<ZonedDateParts, 'year' | 'month' | 'day'> | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    return match ? { day: Number(match[3]), month: Number(match[2]), year: Number(match[1]) } : undefined;
+}
+
+function getFormatter(timeZone: string) {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            day: 'numeric',
+            hour: 'numeric',
+            hourCycle: 'h23',
+            minute: 'numeric',
+            month: 'numeric',
+            second: 'numeric',
+            timeZone,
+            year: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+function isValidTimeZone(timeZone: string) {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Wall clock reading (month is 1-based) of the given instant in the given zone
+function getZonedParts(date: number | Date, timeZone: string): ZonedDateParts {
+    const parts: Record<string, number> = {};
+    for (const { type, value } of getFormatter(timeZone).formatToParts(new Date(date))) {
+        if (type !== 'literal') {
+            parts[type] = Number(value);
+        }
+    }
+    return {
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        month: parts.month,
+        second: parts.second,
+        year: parts.year,
+    };
+}
+
+// Milliseconds to add to UTC to get the zone's wall clock time at that instant
+function getTimeZoneOffset(date: number | Date, timeZone: string) {
+    const time = Math.floor(new Date(date).getTime() / 1000) * 1000;
+    const { year, month, day, hour, minute, second } = getZonedParts(time, timeZone);
+    return Date.UTC(year, month - 1, day, hour, minute, second) - time;
+}
+
+// Instant at which the zone's wall clock shows the given time; out of range fields roll over like Date.UTC.
+// A time repeated when the clocks go back is its first occurrence, and a time skipped when they go forward is
+// read with the offset before the change, so it lands as far past the change as it was meant to be
+function zonedTimeToUtc(
+    parts: Partial<ZonedDateParts> & Pick<ZonedDateParts, 'year' | 'month' | 'day'>,
+    timeZone: string,
+) {
+    const { year, month, day, hour = 0, minute = 0, second = 0 } = parts;
+    const wallTime = Date.UTC(year, month - 1, day, hour, minute, second);
+    // zones change their offset at most once within a day either side
+    const before = wallTime - getTimeZoneOffset(wallTime - DAY, timeZone);
+    const after = wallTime - getTimeZoneOffset(wallTime + DAY, timeZone);
+    const matches = [before, after].filter((time) => time + getTimeZoneOffset(time, timeZone) === wallTime);
+    return matches.length > 0 ? Math.min(...matches) : before;
+}
+
+function startOfZonedDay(date: number | Date, timeZone: string) {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return zonedTimeToUtc({ day, month, year }, timeZone);
+}
+
+function addZonedDays(date: number | Date, days: number, timeZone: string) {
+    const parts = getZonedParts(date, timeZone);
+    return zonedTimeToUtc({ ...parts, day: parts.day + days }, timeZone);
+}
+
+// Local noon of each day from the first to the last, both included, with days past the end of a month rolling over;
+// days are walked at noon so DST changes never skip or repeat a day
+function getZonedNoons(first: Pick<ZonedDateParts, 'year' | 'month' | 'day'>, last: typeof first, timeZone: string) {
+    const from = zonedTimeToUtc({ ...first, hour: 12 }, timeZone);
+    const to = zonedTimeToUtc({ ...last, hour: 12 }, timeZone);
+    const noons: number[] = [];
+    for (let noon = from; noon <= to; noon = addZonedDays(noon, 1, timeZone)) {
+        noons.push(noon);
+    }
+    return noons;
+}
+
+function formatZonedTime(date: number | Date, timeZone: string) {
+    const { hour, minute } = getZonedParts(date, timeZone);
+    return `${pad(hour)}:${pad(minute)}`;
+}
+
+function formatZonedDate(date: number | Date, timeZone: string) {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function formatTimeZoneOffset(date: number | Date, timeZone: string) {
+    const offset = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+    const sign = offset < 0 ? '-' : '+';
+    return `UTC${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
+
+export {
+    addZonedDays,
+    formatHours,
+    formatTimeZoneOffset,
+    formatZonedDate,
+    formatZonedTime,
+    getDaysInYear,
+    getTimeZoneOffset,
+    getZonedNoons,
+    getZonedParts,
+    isValidTimeZone,
+    monthLabels,
+    pad,
+    parseDay,
+    startOfZonedDay,
+    zonedTimeToUtc,
+};
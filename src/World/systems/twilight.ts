@@ -0,0 +1,57 @@
+import { getPosition } from 'suncalc';
+import { degToRad } from './engine';
+
+export interface AltitudeCrossing {
+    date: Date;
+    rising: boolean;
+}
+
+const twilightDepressions = {
+    astronomical: 18,
+    civil: 6,
+    nautical: 12,
+};
+
+type AltitudeFunction = (date: Date, latitude: number, longitude: number) => { altitude: number };
+
+const SEARCH_STEP = 10 * 60 * 1000;
+
+// Moments between start and end when the sun (or another body) passes through the given altitude (in degrees),
+// to the second
+function findAltitudeCrossings(
+    start: number,
+    end: number,
+    latitude: number,
+    longitude: number,
+    altitude: number,
+    getAltitude: AltitudeFunction = getPosition,
+) {
+    const target = degToRad(altitude);
+    const offset = (time: number) => getAltitude(new Date(time), latitude, longitude).altitude - target;
+    const crossings: AltitudeCrossing[] = [];
+    let previous = start;
+    let previousOffset = offset(start);
+    const steps = Math.ceil((end - start) / SEARCH_STEP);
+    for (let i = 1; i <= steps; i++) {
+        const time = Math.min(start + i * SEARCH_STEP, end);
+        const currentOffset = offset(time);
+        if (previousOffset < 0 !== currentOffset < 0) {
+            let low = previous;
+            let high = time;
+            while (high - low > 1000) {
+                const middle = (low + high) / 2;
+                if (offset(middle) < 0 === previousOffset < 0) {
+                    low = middle;
+                } else {
+                    high = middle;
+                }
+            }
+            crossings.push({ date: new Date(Math.round((low + high) / 2)), rising: currentOffset > previousOffset });
+        }
+        previous = time;
+        previousOffset = currentOffset;
+    }
+    return crossings;
+}
+
+export { findAltitudeCrossings, twilightDepressions };
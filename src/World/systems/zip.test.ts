@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test';
+import { createZip } from './zip';
+
+const encoder = new TextEncoder();
+
+const readZip = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+
+const readName = (view: DataView, offset: number, length: number) =>
+    new TextDecoder().decode(new Uint8Array(view.buffer, offset, length));
+
+describe('zip', () => {
+    describe('createZip', () => {
+        // created in local time, like the MS-DOS date and time of the entries
+        const date = new Date(2026, 2, 1, 13, 45, 31);
+        const entries = [
+            { data: encoder.encode('123456789'), name: 'frame-0001.png' },
+            { data: new Uint8Array(0), name: 'empty.txt' },
+        ];
+
+        it('should write a local header with the CRC-32 and sizes before each stored entry', async () => {
+            const view = await readZip(createZip(entries, date));
+            expect(view.getUint32(0, true)).toBe(0x04034b50);
+            expect(view.getUint16(8, true)).toBe(0);
+            // the check value of CRC-32 over the ASCII digits 1 to 9
+            expect(view.getUint32(14, true)).toBe(0xcbf43926);
+            expect(view.getUint32(18, true)).toBe(9);
+            expect(view.getUint32(22, true)).toBe(9);
+            expect(view.getUint16(26, true)).toBe(14);
+            expect(readName(view, 30, 14)).toBe('frame-0001.png');
+            expect(readName(view, 44, 9)).toBe('123456789');
+
+            const second = 30 + 14 + 9;
+            expect(view.getUint32(second, true)).toBe(0x04034b50);
+            expect(view.getUint32(second + 14, true)).toBe(0);
+            expect(readName(view, second + 30, 9)).toBe('empty.txt');
+        });
+
+        it('should encode the date and time with a two-second resolution', async () => {
+            const view = await readZip(createZip(entries, date));
+            expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+            expect(view.getUint16(12, true)).toBe(((2026 - 1980) << 9) | (3 << 5) | 1);
+        });
+
+        it('should end with a central directory pointing at each local header', async () => {
+            const blob = createZip(entries, date);
+            const view = await readZip(blob);
+            const end = blob.size - 22;
+            expect(view.getUint32(end, true)).toBe(0x06054b50);
+            expect(view.getUint16(end + 8, true)).toBe(2);
+            expect(view.getUint16(end + 10, true)).toBe(2);
+
+            const directoryOffset = view.getUint32(end + 16, true);
+            expect(directoryOffset).toBe(30 + 14 + 9 + 30 + 9);
+            expect(view.getUint32(end + 12, true)).toBe(end - directoryOffset);
+
+            let offset = directoryOffset;
+            const headers: number[] = [];
+            for (let i = 0; i < 2; i++) {
+                expect(view.getUint32(offset, true)).toBe(0x02014b50);
+                headers.push(view.getUint32(offset + 42, true));
+                offset += 46 + view.getUint16(offset + 28, true);
+            }
+            expect(headers).toEqual([0, 30 + 14 + 9]);
+            expect(view.getUint32(directoryOffset + 16, true)).toBe(0xcbf43926);
+            expect(offset).toBe(end);
+        });
+
+        it('should write only the end record for no entries', async () => {
+            const blob = createZip([], date);
+            expect(blob.size).toBe(22);
+            expect(blob.type).toBe('application/zip');
+            expect((await readZip(blob)).getUint32(0, true)).toBe(0x06054b50);
+        });
+
+        it('should encode the names as UTF-8', async () => {
+            const view = await readZip(createZip([{ data: new Uint8Array(1), name: 'صلاة.png' }], date));
+            const length = view.getUint16(26, true);
+            expect(length).toBe(encoder.encode('صلاة.png').length);
+            expect(readName(view, 30, length)).toBe('صلاة.png');
+        });
+    });
+});
@@ -0,0 +1,227 @@
+import { parseArgs } from 'node:util';
+import { inferTimeZone } from './World/systems/cities';
+import { getPrayerTimes, getSunEvents, type Observer } from './World/systems/engine';
+import { searchCities } from './World/systems/locations';
+import {
+    applyCalculationMethod,
+    calculationMethodOptions,
+    highLatitudeRuleOptions,
+    madhabOptions,
+    type PrayerName,
+    type PrayerSettings,
+    prayerNames,
+} from './World/systems/prayerSettings';
+import {
+    formatZonedDate,
+    formatZonedTime,
+    getZonedNoons,
+    isValidTimeZone,
+    pad,
+    parseDay,
+} from './World/systems/timezone';
+
+// Prayer times and sun events for a location and date range, e.g.
+// bun src/cli.ts --city Makkah --from 2026-03-01 --days 30 --method UmmAlQura --format csv
+
+type OutputFormat = 'csv' | 'json' | 'table';
+
+const usage = `Usage: bun src/cli.ts (--city <name> | --lat <deg> --lng <deg>) [options]
+
+Options:
+  --city <name>              City from the bundled offline list
+  --lat, --lng <deg>         Coordinates, taking precedence over --city; write negatives as --lng=-46.97
+  --from <YYYY-MM-DD>        First day (default: today in the time zone)
+  --to <YYYY-MM-DD>          Last day (default: --from, or --from + --days - 1)
+  --days <n>                 Number of days
+  --method <name>            ${Object.values(calculationMethodOptions).join(', ')} (default: MuslimWorldLeague)
+  --fajr-angle, --isha-angle Angles for --method Other
+  --madhab <name>            ${Object.values(madhabOptions).join(', ')} (default: shafi)
+  --high-latitude <rule>     ${Object.values(highLatitudeRuleOptions).join(', ')}
+  --timezone <IANA zone>     Default: the city's zone or one inferred from the coordinates
+  --format <format>          table, csv or json (default: table)
+  --help                     Show this message`;
+
+const columns = ['date', ...prayerNames, 'solarNoon', 'sunriseAzimuth', 'sunsetAzimuth', 'dayLength'] as const;
+
+type Row = Record<(typeof columns)[number], string>;
+
+class UsageError extends Error {}
+
+const formatTime = (date: Date, timeZone: string) =>
+    Number.isNaN(date.getTime()) ? '' : formatZonedTime(date, timeZone);
+
+const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return Number.isNaN(minutes) ? '' : `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+const formatBearing = (bearing: number) => (Number.isNaN(bearing) ? '' : bearing.toFixed(1));
+
+function parseNumber(name: string, value: string | undefined, min: number, max: number) {
+    if (value === undefined) {
+        return undefined;
+    }
+    const number = Number(value);
+    if (value.trim() === '' || !(number >= min && number <= max)) {
+        throw new UsageError(`--${name} must be a number between ${min} and ${max}`);
+    }
+    return number;
+}
+
+function readDay(name: string, value: string) {
+    const day = parseDay(value);
+    if (!day) {
+        throw new UsageError(`--${name} must be a date like 2026-03-01`);
+    }
+    return day;
+}
+
+function parseOption<T extends string>(name: string, value: string, options: Record<string, T>) {
+    const option = Object.values(options).find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+    if (!option) {
+        throw new UsageError(`--${name} must be one of ${Object.values(options).join(', ')}`);
+    }
+    return option;
+}
+
+function resolveObserver(values: Record<string, string | undefined>): Observer & { name: string } {
+    const latitude = parseNumber('lat', values.lat, -90, 90);
+    const longitude = parseNumber('lng', values.lng, -180, 180);
+    let location: { latitude: number; longitude: number; name: string; timeZone?: string };
+    if (latitude !== undefined && longitude !== undefined) {
+        location = { latitude, longitude, name: `${latitude}, ${longitude}` };
+    } else if (values.city) {
+        const [city] = searchCities(values.city, 1);
+        if (!city) {
+            throw new UsageError(`No city matches "${values.city}"`);
+        }
+        location = { ...city, name: `${city.name}, ${city.country}` };
+    } else {
+        throw new UsageError('Give either --city or both --lat and --lng');
+    }
+
+    const timeZone = values.timezone ?? location.timeZone ?? inferTimeZone(location.latitude, location.longitude);
+    if (!isValidTimeZone(timeZone)) {
+        throw new UsageError(`Unknown time zone "${timeZone}"`);
+    }
+    return { ...location, timeZone };
+}
+
+function resolveSettings(values: Record<string, string | undefined>): PrayerSettings {
+    const settings: PrayerSettings = {
+        calculationMethod: parseOption('method', values.method ?? 'MuslimWorldLeague', calculationMethodOptions),
+        fajrAngle: 18,
+        highLatitudeRule: parseOption(
+            'high-latitude',
+            values['high-latitude'] ?? 'middleofthenight',
+            highLatitudeRuleOptions,
+        ),
+        ishaAngle: 18,
+        ishaInterval: 0,
+        madhab: parseOption('madhab', values.madhab ?? 'shafi', madhabOptions),
+        prayerAdjustments: { asr: 0, dhuhr: 0, fajr: 0, isha: 0, maghrib: 0, sunrise: 0 },
+        rounding: 'nearest',
+    };
+    applyCalculationMethod(settings);
+    settings.fajrAngle = parseNumber('fajr-angle', values['fajr-angle'], 0, 30) ?? settings.fajrAngle;
+    settings.ishaAngle = parseNumber('isha-angle', values['isha-angle'], 0, 30) ?? settings.ishaAngle;
+    return settings;
+}
+
+// Local noon of the --from day through --to, or through as many days as --days asks for
+function resolveDays(values: Record<string, string | undefined>, timeZone: string) {
+    const first = readDay('from', values.from ?? formatZonedDate(Date.now(), timeZone));
+    const days = parseNumber('days', values.days, 1, 3660);
+    const last = values.to ? readDay('to', values.to) : { ...first, day: first.day + (days ?? 1) - 1 };
+    const dates = getZonedNoons(first, last, timeZone);
+    if (dates.length === 0) {
+        throw new UsageError('--to must not be before --from');
+    }
+    return dates;
+}
+
+function createRow(date: number, observer: Observer, settings: PrayerSettings): Row {
+    const prayerTimes = getPrayerTimes(date, observer, settings);
+    const events = getSunEvents(date, observer);
+    const { timeZone } = observer;
+    return {
+        date: formatZonedDate(date, timeZone),
+        ...(Object.fromEntries(
+            prayerNames.map((prayer) => [prayer, formatTime(prayerTimes[prayer], timeZone)]),
+        ) as Record<PrayerName, string>),
+        dayLength: formatDuration(events.dayLength),
+        solarNoon: formatTime(events.solarNoon, timeZone),
+        sunriseAzimuth: formatBearing(events.sunriseBearing),
+        sunsetAzimuth: formatBearing(events.sunsetBearing),
+    };
+}
+
+function formatTable(rows: Row[]) {
+    const widths = columns.map((column) => Math.max(column.length, ...rows.map((row) => row[column].length)));
+    const line = (cells: string[]) =>
+        cells
+            .map((cell, i) => cell.padEnd(widths[i]))
+            .join('  ')
+            .trimEnd();
+    return [
+        line([...columns]),
+        line(widths.map((width) => '-'.repeat(width))),
+        ...rows.map((row) => line(columns.map((c) => row[c]))),
+    ].join('\n');
+}
+
+function run(args: string[]) {
+    const { values } = parseArgs({
+        args,
+        options: {
+            city: { type: 'string' },
+            days: { type: 'string' },
+            'fajr-angle': { type: 'string' },
+            format: { type: 'string' },
+            from: { type: 'string' },
+            help: { type: 'boolean' },
+            'high-latitude': { type: 'string' },
+            'isha-angle': { type: 'string' },
+            lat: { type: 'string' },
+            lng: { type: 'string' },
+            madhab: { type: 'string' },
+            method: { type: 'string' },
+            timezone: { type: 'string' },
+            to: { type: 'string' },
+        },
+    });
+    if (values.help) {
+        return usage;
+    }
+
+    const { help: _, ...options } = values;
+    const format = parseOption<OutputFormat>('format', options.format ?? 'table', {
+        csv: 'csv',
+        json: 'json',
+        table: 'table',
+    });
+    const observer = resolveObserver(options);
+    const settings = resolveSettings(options);
+    const rows = resolveDays(options, observer.timeZone).map((date) => createRow(date, observer, settings));
+
+    if (format === 'json') {
+        return JSON.stringify({ days: rows, location: observer, settings }, null, 2);
+    }
+    if (format === 'csv') {
+        return [columns.join(','), ...rows.map((row) => columns.map((column) => row[column]).join(','))].join('\n');
+    }
+    return [
+        `${observer.name} (${observer.timeZone}), ${settings.calculationMethod}, ${settings.madhab}`,
+        formatTable(rows),
+    ].join('\n');
+}
+
+try {
+    console.log(run(process.argv.slice(2)));
+} catch (error) {
+    console.error((error as Error).message);
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+        console.error(`\n${usage}`);
+    }
+    process.exit(1);
+}